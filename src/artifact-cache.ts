@@ -0,0 +1,253 @@
+/**
+ * Local cache for downloaded release archives.
+ *
+ * Archives are stored content-addressed under objects/<sha256>.tar.gz and
+ * looked up through an index keyed by release tag + asset name:
+ *
+ *   <cache-dir>/
+ *     objects/<sha256>.tar.gz
+ *     index/<release-tag>/<asset-name>.json
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { Args } from "./utils.js";
+
+interface CacheEntry {
+  releaseTag: string;
+  assetName: string;
+  sha256: string;
+  size: number;
+  storedAt: string;
+  lastUsedAt: string;
+}
+
+export const getDefaultCacheDir = (): string => {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache");
+  return path.join(base, "react-native-skia-binaries");
+};
+
+/**
+ * Resolve the cache directory from --cache-dir / --no-cache.
+ * Returns undefined when caching is disabled.
+ */
+export const resolveCacheDir = (args: Args): string | undefined => {
+  if (args["no-cache"] === true) {
+    return undefined;
+  }
+  return path.resolve((args["cache-dir"] as string) || getDefaultCacheDir());
+};
+
+const getIndexPath = (cacheDir: string, releaseTag: string, assetName: string): string =>
+  path.join(cacheDir, "index", releaseTag, `${assetName}.json`);
+
+const getObjectPath = (cacheDir: string, sha256: string): string =>
+  path.join(cacheDir, "objects", `${sha256}.tar.gz`);
+
+/**
+ * Where an asset is downloaded before it is stored. It outlives the run, so an
+ * interrupted download is resumed by the next one.
+ */
+export const getPartialDownloadPath = (cacheDir: string, releaseTag: string, assetName: string): string =>
+  path.join(cacheDir, "downloads", releaseTag, `${assetName}.partial`);
+
+const hashFile = (filePath: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+
+const readEntry = (indexPath: string): CacheEntry | null => {
+  try {
+    return JSON.parse(fs.readFileSync(indexPath, "utf8")) as CacheEntry;
+  } catch {
+    return null;
+  }
+};
+
+const writeEntry = (indexPath: string, entry: CacheEntry): void => {
+  fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+  fs.writeFileSync(indexPath, JSON.stringify(entry, null, 2) + "\n");
+};
+
+/**
+ * Look up a cached archive. Returns its path, or null on a miss.
+ * Entries whose archive is missing or no longer matches its recorded hash are evicted.
+ */
+export const getCachedArchive = async (
+  cacheDir: string,
+  releaseTag: string,
+  assetName: string,
+  log: (message: string) => void = console.log
+): Promise<string | null> => {
+  const indexPath = getIndexPath(cacheDir, releaseTag, assetName);
+  const entry = readEntry(indexPath);
+  if (!entry) {
+    return null;
+  }
+
+  const objectPath = getObjectPath(cacheDir, entry.sha256);
+  if (!fs.existsSync(objectPath) || (await hashFile(objectPath)) !== entry.sha256) {
+    log(`      Cache entry for ${assetName} is corrupt, refetching...`);
+    evictCachedArchive(cacheDir, releaseTag, assetName);
+    return null;
+  }
+
+  writeEntry(indexPath, { ...entry, lastUsedAt: new Date().toISOString() });
+  return objectPath;
+};
+
+/**
+ * Move a freshly downloaded archive into the cache. Returns the cached path.
+ */
+export const storeCachedArchive = async (
+  cacheDir: string,
+  releaseTag: string,
+  assetName: string,
+  archivePath: string
+): Promise<string> => {
+  const sha256 = await hashFile(archivePath);
+  const objectPath = getObjectPath(cacheDir, sha256);
+  fs.mkdirSync(path.dirname(objectPath), { recursive: true });
+
+  if (fs.existsSync(objectPath)) {
+    fs.rmSync(archivePath, { force: true });
+  } else {
+    // Copy then rename so an interrupted run never leaves a partial object
+    const partialPath = `${objectPath}.partial`;
+    fs.copyFileSync(archivePath, partialPath);
+    fs.renameSync(partialPath, objectPath);
+    fs.rmSync(archivePath, { force: true });
+  }
+
+  const now = new Date().toISOString();
+  writeEntry(getIndexPath(cacheDir, releaseTag, assetName), {
+    releaseTag,
+    assetName,
+    sha256,
+    size: fs.statSync(objectPath).size,
+    storedAt: now,
+    lastUsedAt: now,
+  });
+  return objectPath;
+};
+
+/**
+ * Drop the index entry for an asset. The object itself is removed by prune
+ * once nothing references it.
+ */
+export const evictCachedArchive = (
+  cacheDir: string,
+  releaseTag: string,
+  assetName: string
+): void => {
+  fs.rmSync(getIndexPath(cacheDir, releaseTag, assetName), { force: true });
+};
+
+export interface PruneOptions {
+  // Remove entries not used for this many days
+  maxAgeDays?: number;
+  // Remove every entry
+  all?: boolean;
+}
+
+export interface PruneResult {
+  removedEntries: number;
+  removedObjects: number;
+  freedBytes: number;
+}
+
+const listEntries = (cacheDir: string): { indexPath: string; entry: CacheEntry | null }[] => {
+  const indexDir = path.join(cacheDir, "index");
+  if (!fs.existsSync(indexDir)) {
+    return [];
+  }
+  const result: { indexPath: string; entry: CacheEntry | null }[] = [];
+  for (const tag of fs.readdirSync(indexDir)) {
+    const tagDir = path.join(indexDir, tag);
+    if (!fs.statSync(tagDir).isDirectory()) continue;
+    for (const file of fs.readdirSync(tagDir)) {
+      const indexPath = path.join(tagDir, file);
+      result.push({ indexPath, entry: readEntry(indexPath) });
+    }
+  }
+  return result;
+};
+
+const removeEmptyTagDirs = (cacheDir: string): void => {
+  const indexDir = path.join(cacheDir, "index");
+  if (!fs.existsSync(indexDir)) {
+    return;
+  }
+  for (const tag of fs.readdirSync(indexDir)) {
+    const tagDir = path.join(indexDir, tag);
+    if (fs.statSync(tagDir).isDirectory() && fs.readdirSync(tagDir).length === 0) {
+      fs.rmdirSync(tagDir);
+    }
+  }
+};
+
+/**
+ * Remove stale index entries, then every object no remaining entry references.
+ */
+export const pruneCache = (cacheDir: string, options: PruneOptions = {}): PruneResult => {
+  const result: PruneResult = { removedEntries: 0, removedObjects: 0, freedBytes: 0 };
+  const cutoff =
+    options.maxAgeDays !== undefined
+      ? Date.now() - options.maxAgeDays * 24 * 60 * 60 * 1000
+      : undefined;
+
+  const referenced = new Set<string>();
+  for (const { indexPath, entry } of listEntries(cacheDir)) {
+    const stale =
+      options.all ||
+      !entry ||
+      (cutoff !== undefined && Date.parse(entry.lastUsedAt) < cutoff);
+    if (stale) {
+      fs.rmSync(indexPath, { force: true });
+      result.removedEntries++;
+    } else {
+      referenced.add(entry.sha256);
+    }
+  }
+
+  const objectsDir = path.join(cacheDir, "objects");
+  if (fs.existsSync(objectsDir)) {
+    for (const file of fs.readdirSync(objectsDir)) {
+      const sha256 = file.replace(/\.tar\.gz(\.partial)?$/, "");
+      if (referenced.has(sha256) && !file.endsWith(".partial")) continue;
+      const objectPath = path.join(objectsDir, file);
+      result.freedBytes += fs.statSync(objectPath).size;
+      fs.rmSync(objectPath, { force: true });
+      result.removedObjects++;
+    }
+  }
+
+  // Interrupted downloads are kept for resuming until they are as old as a stale entry
+  const downloadsDir = path.join(cacheDir, "downloads");
+  if (fs.existsSync(downloadsDir)) {
+    for (const tag of fs.readdirSync(downloadsDir)) {
+      const tagDir = path.join(downloadsDir, tag);
+      for (const file of fs.readdirSync(tagDir)) {
+        const partialPath = path.join(tagDir, file);
+        const stat = fs.statSync(partialPath);
+        if (!options.all && (cutoff === undefined || stat.mtimeMs >= cutoff)) continue;
+        result.freedBytes += stat.size;
+        fs.rmSync(partialPath, { force: true });
+        result.removedObjects++;
+      }
+      if (fs.readdirSync(tagDir).length === 0) {
+        fs.rmdirSync(tagDir);
+      }
+    }
+  }
+
+  removeEmptyTagDirs(cacheDir);
+
+  return result;
+};
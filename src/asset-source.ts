@@ -0,0 +1,90 @@
+/**
+ * Where release assets are fetched from.
+ *
+ * - github: GitHub releases of a repository (default: shopify/react-native-skia)
+ * - mirror: any HTTP(S) server laid out like GitHub releases: <base>/<release-tag>/<asset>
+ * - file:   a local directory holding <release-tag>/<asset> or <asset> directly
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { getGitHubToken } from "./github.js";
+import { Args } from "./utils.js";
+
+// GitHub repository for downloading binaries
+export const DEFAULT_REPO = "shopify/react-native-skia";
+
+export type AssetSource =
+  | { kind: "github"; repo: string }
+  | { kind: "mirror"; baseUrl: string }
+  | { kind: "file"; dir: string };
+
+/**
+ * Resolve the asset source from --source / --mirror / --repo.
+ */
+export const resolveAssetSource = (args: Args): AssetSource => {
+  if (args.source && args.mirror) {
+    throw new Error("--source and --mirror cannot be used together");
+  }
+
+  if (args.source) {
+    const source = args.source as string;
+    if (!source.startsWith("file://")) {
+      throw new Error(`Unsupported --source "${source}". Expected a file:// URL`);
+    }
+    const dir = fileURLToPath(source);
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      throw new Error(`Source directory not found: ${dir}`);
+    }
+    return { kind: "file", dir };
+  }
+
+  if (args.mirror) {
+    const mirror = args.mirror as string;
+    if (!/^https?:\/\//.test(mirror)) {
+      throw new Error(`Unsupported --mirror "${mirror}". Expected an http(s):// URL`);
+    }
+    return { kind: "mirror", baseUrl: mirror.replace(/\/+$/, "") };
+  }
+
+  return { kind: "github", repo: (args.repo as string) || DEFAULT_REPO };
+};
+
+export const describeAssetSource = (source: AssetSource): string => {
+  switch (source.kind) {
+    case "github":
+      return `github.com/${source.repo}${getGitHubToken() ? " (authenticated)" : ""}`;
+    case "mirror":
+      return source.baseUrl;
+    case "file":
+      return source.dir;
+  }
+};
+
+/**
+ * URL of an asset on a remote source.
+ */
+export const getDownloadUrl = (
+  source: Exclude<AssetSource, { kind: "file" }>,
+  releaseTag: string,
+  assetName: string
+): string =>
+  source.kind === "github"
+    ? `https://github.com/${source.repo}/releases/download/${releaseTag}/${assetName}`
+    : `${source.baseUrl}/${releaseTag}/${assetName}`;
+
+/**
+ * Path of an asset in a local source directory, or null if it isn't there.
+ */
+export const getLocalAssetPath = (
+  source: Extract<AssetSource, { kind: "file" }>,
+  releaseTag: string,
+  assetName: string
+): string | null => {
+  const candidates = [
+    path.join(source.dir, releaseTag, assetName),
+    path.join(source.dir, assetName),
+  ];
+  return candidates.find((candidate) => fs.existsSync(candidate)) ?? null;
+};
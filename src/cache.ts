@@ -0,0 +1,54 @@
+/**
+ * Script to manage the local cache of downloaded release archives.
+ *
+ * Usage:
+ *   npx tsx src/cache.ts prune
+ *   npx tsx src/cache.ts prune --max-age=7
+ *   npx tsx src/cache.ts prune --all
+ *
+ * Options:
+ *   --max-age       Remove archives not used for this many days (default: 30)
+ *   --all           Remove every cached archive
+ *   --cache-dir     Cache directory (default: $XDG_CACHE_HOME or ~/.cache, /react-native-skia-binaries)
+ */
+
+import fs from "fs";
+import { pruneCache, resolveCacheDir } from "./artifact-cache.js";
+import { formatBytes, parseArgs } from "./utils.js";
+
+const main = (): void => {
+  const args = parseArgs();
+  const command = process.argv.slice(2).find((arg) => !arg.startsWith("--"));
+
+  if (command !== "prune") {
+    console.error(`Error: Unknown command "${command ?? ""}"`);
+    console.error("Usage: npx tsx src/cache.ts prune [--max-age=30] [--all]");
+    process.exit(1);
+  }
+
+  const cacheDir = resolveCacheDir({ ...args, "no-cache": false });
+  if (!cacheDir || !fs.existsSync(cacheDir)) {
+    console.log(`Cache is empty: ${cacheDir}`);
+    return;
+  }
+
+  const maxAgeDays = args["max-age"] ? parseInt(args["max-age"] as string, 10) : 30;
+  if (Number.isNaN(maxAgeDays) || maxAgeDays < 0) {
+    console.error(`Error: Invalid --max-age "${args["max-age"]}"`);
+    process.exit(1);
+  }
+
+  console.log(`Pruning cache...`);
+  console.log(`  Cache: ${cacheDir}`);
+  console.log(`  ${args.all === true ? "Removing all entries" : `Max age: ${maxAgeDays} day(s)`}`);
+  console.log("");
+
+  const result = pruneCache(cacheDir, { maxAgeDays, all: args.all === true });
+
+  console.log(
+    `Removed ${result.removedEntries} entr${result.removedEntries === 1 ? "y" : "ies"} and ` +
+      `${result.removedObjects} archive(s), freed ${formatBytes(result.freedBytes)}`
+  );
+};
+
+main();
@@ -0,0 +1,111 @@
+/**
+ * Script to validate skia-config.json and its published JSON Schema.
+ *
+ * Usage:
+ *   npx tsx src/check-config.ts
+ *   npx tsx src/check-config.ts --config=skia-config.json
+ *   npx tsx src/check-config.ts --backend=skia-graphite-vulkan
+ *   npx tsx src/check-config.ts --write-schema
+ *
+ * Options:
+ *   --config        Config file path (default: ./skia-config.json)
+ *   --backend       Only describe this backend (name or config key); fails if the
+ *                   config has no block for it
+ *   --write-schema  Regenerate skia-config.schema.json from the registry
+ *
+ * Fails if the config is invalid (see config.ts for the rules) or if
+ * skia-config.schema.json is out of date with the registry. Otherwise prints
+ * how each backend of the config is released, named and post-processed.
+ */
+
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  CONFIG_SCHEMA_FILE,
+  ConfigFile,
+  getBackendConfig,
+  loadConfig,
+  selectPackages,
+  writeConfigSchema,
+} from "./config.js";
+import {
+  Backend,
+  getBackendLabel,
+  getBackends,
+  getConfigKey,
+  getMarkerFile,
+  getPackageName,
+  getReleaseTag,
+  isPrunedByDefault,
+  isStrippedByDefault,
+  resolveBackend,
+} from "./registry.js";
+import { parseArgs } from "./utils.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.join(__dirname, "..");
+
+const describeBackend = (config: ConfigFile, backend: Backend): void => {
+  const skiaConfig = getBackendConfig(config, backend);
+  if (!skiaConfig) return;
+  const marker = getMarkerFile(backend);
+  console.log(`  ${backend}: ${getBackendLabel(backend)}`);
+  console.log(`      Release: ${getReleaseTag(backend, skiaConfig.version)}`);
+  for (const pkg of selectPackages(backend, skiaConfig)) {
+    console.log(`      Package: ${getPackageName(pkg, backend)}`);
+  }
+  console.log(
+    `      Prune: ${isPrunedByDefault(backend) ? "yes" : "no"}, ` +
+      `strip Android: ${isStrippedByDefault(backend) ? "yes" : "no"}, ` +
+      `marker: ${marker ?? "none"}`
+  );
+};
+
+const main = (): void => {
+  const args = parseArgs();
+  const configPath = path.resolve((args.config as string) || path.join(ROOT_DIR, "skia-config.json"));
+
+  if (args["write-schema"] === true) {
+    writeConfigSchema(ROOT_DIR);
+    console.log(`Wrote ${path.join(ROOT_DIR, CONFIG_SCHEMA_FILE)}`);
+    return;
+  }
+
+  let failed = false;
+  let config: ConfigFile | undefined;
+  try {
+    config = loadConfig(configPath);
+    console.log(`  [OK] ${configPath}`);
+  } catch (error) {
+    console.log(`  [X] ${(error as Error).message}`);
+    failed = true;
+  }
+
+  if (config) {
+    try {
+      const backends = typeof args.backend === "string" ? [resolveBackend(args.backend)] : getBackends();
+      if (typeof args.backend === "string" && !getBackendConfig(config, backends[0])) {
+        throw new Error(`${configPath} has no ${getConfigKey(backends[0])} block`);
+      }
+      for (const backend of backends) {
+        describeBackend(config, backend);
+      }
+    } catch (error) {
+      console.log(`  [X] ${(error as Error).message}`);
+      failed = true;
+    }
+  }
+
+  if (writeConfigSchema(ROOT_DIR, true)) {
+    console.log(`  [OK] ${CONFIG_SCHEMA_FILE}`);
+  } else {
+    console.log(`  [X] ${CONFIG_SCHEMA_FILE} is out of date; run with --write-schema`);
+    failed = true;
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+};
+
+main();
@@ -0,0 +1,96 @@
+/**
+ * Checksum helpers shared by the generate and verify scripts.
+ *
+ * Checksums use the same scheme as react-native-skia: a SHA256 over the
+ * sorted relative paths and contents of every file in a directory.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+/**
+ * Calculate SHA256 checksum of a directory by hashing all files.
+ */
+export const calculateDirectoryChecksum = (directory: string): string | null => {
+  if (!fs.existsSync(directory)) {
+    return null;
+  }
+
+  const hash = crypto.createHash("sha256");
+  const files: string[] = [];
+
+  const collectFiles = (dir: string): void => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        collectFiles(fullPath);
+      } else if (entry.isFile()) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  collectFiles(directory);
+  files.sort();
+
+  for (const file of files) {
+    const relativePath = path.relative(directory, file);
+    hash.update(relativePath);
+    hash.update(fs.readFileSync(file));
+  }
+
+  return hash.digest("hex");
+};
+
+export interface ChecksumResult {
+  platform: string;
+  expected: string | undefined;
+  actual: string | null;
+  match: boolean;
+  exists: boolean;
+}
+
+export const compareChecksum = (
+  checksumKey: string,
+  expected: string | undefined,
+  actual: string | null
+): ChecksumResult => ({
+  platform: checksumKey,
+  expected,
+  actual,
+  match: expected === actual,
+  exists: actual !== null,
+});
+
+/**
+ * Print one line per checksum result, with expected/actual values for mismatches.
+ * Returns true when every result matches; an artifact without a configured
+ * checksum doesn't.
+ */
+export const printChecksumReport = (
+  results: ChecksumResult[],
+  indent = "  ",
+  log: (message: string) => void = console.log
+): boolean => {
+  let allMatch = true;
+  for (const result of results) {
+    if (!result.exists) {
+      log(`${indent}[ ] ${result.platform}: NOT FOUND`);
+      allMatch = false;
+    } else if (result.expected === undefined) {
+      log(`${indent}[X] ${result.platform}: NO CHECKSUM IN CONFIG`);
+      log(`${indent}    Actual:   ${result.actual}`);
+      allMatch = false;
+    } else if (result.match) {
+      log(`${indent}[OK] ${result.platform}`);
+    } else {
+      log(`${indent}[X] ${result.platform}: MISMATCH`);
+      log(`${indent}    Expected: ${result.expected}`);
+      log(`${indent}    Actual:   ${result.actual}`);
+      allMatch = false;
+    }
+  }
+  return allMatch;
+};
@@ -0,0 +1,220 @@
+/**
+ * CMake package config for Android packages, so native code can use the
+ * libraries without declaring its own imported targets:
+ *
+ *   set(Skia_DIR "${NODE_MODULES_DIR}/react-native-skia-android/cmake")
+ *   find_package(Skia CONFIG REQUIRED)
+ *   target_link_libraries(app PRIVATE Skia::all)
+ *
+ * The targets are generated from the libraries present in each ABI directory
+ * after pruning, and resolved for the ABI of the NDK toolchain (ANDROID_ABI).
+ */
+
+import fs from "fs";
+import path from "path";
+import { Backend, PackageConfig, getBackendLabel, getPackageName, isGraphite } from "./registry.js";
+
+export const CMAKE_DIR = "cmake";
+export const CMAKE_CONFIG_FILE = "SkiaConfig.cmake";
+export const CMAKE_VERSION_FILE = "SkiaConfigVersion.cmake";
+
+export interface AbiLibraries {
+  arch: string;
+  // Library names without the lib prefix and .a suffix, in link order
+  libraries: string[];
+}
+
+/**
+ * Library name of a static archive, e.g. libskia.a → skia.
+ */
+export const getLibraryName = (file: string): string =>
+  file.replace(/^lib/, "").replace(/\.a$/, "");
+
+// Libraries each Skia module uses besides skia, in the order they link
+const MODULE_DEPENDENCIES: Record<string, string[]> = {
+  skottie: ["sksg", "skshaper", "skresources", "jsonreader"],
+  svg: ["skshaper", "skresources"],
+  skparagraph: ["skshaper", "skunicode_icu", "skunicode_libgrapheme", "skunicode_core"],
+  skshaper: ["skunicode_icu", "skunicode_libgrapheme", "skunicode_core"],
+  skunicode_icu: ["skunicode_core"],
+  skunicode_libgrapheme: ["skunicode_core"],
+};
+
+const isDawn = (library: string): boolean => library.startsWith("dawn");
+
+/**
+ * Libraries a library links against, among those present: modules use the
+ * modules listed above and skia, and Graphite's skia uses the Dawn libraries.
+ */
+export const getLibraryDependencies = (library: string, libraries: string[]): string[] => {
+  if (isDawn(library)) {
+    return [];
+  }
+  if (library === "skia") {
+    return libraries.filter(isDawn);
+  }
+  return [...(MODULE_DEPENDENCIES[library] ?? []), "skia"].filter((dependency) =>
+    libraries.includes(dependency)
+  );
+};
+
+/**
+ * Sort libraries so each comes before every library it depends on, as
+ * single-pass linkers (GNU ld with static archives) only resolve symbols
+ * against the archives that follow. Ties are sorted by name.
+ */
+const sortByLinkOrder = (libraries: string[]): string[] => {
+  const heights = new Map<string, number>();
+  // Longest dependency chain below a library; dependencies are always lower
+  const getHeight = (library: string): number => {
+    if (!heights.has(library)) {
+      const dependencies = getLibraryDependencies(library, libraries);
+      heights.set(library, Math.max(-1, ...dependencies.map(getHeight)) + 1);
+    }
+    return heights.get(library)!;
+  };
+  return [...libraries].sort((a, b) => getHeight(b) - getHeight(a) || a.localeCompare(b));
+};
+
+/**
+ * The .a files present in each ABI directory of an Android package.
+ */
+export const listAndroidLibraries = (libsDir: string, pkg: PackageConfig): AbiLibraries[] =>
+  (pkg.androidArchs ?? [])
+    .filter(({ arch }) => fs.existsSync(path.join(libsDir, arch)))
+    .map(({ arch }) => ({
+      arch,
+      libraries: sortByLinkOrder(
+        fs
+          .readdirSync(path.join(libsDir, arch))
+          .filter((file) => file.startsWith("lib") && file.endsWith(".a"))
+          .map(getLibraryName)
+      ),
+    }));
+
+export const generateCmakeConfig = (
+  pkg: PackageConfig,
+  backend: Backend,
+  skiaVersion: string,
+  npmVersion: string,
+  abis: AbiLibraries[]
+): string => {
+  const abiBranches = abis
+    .map(
+      ({ arch, libraries }, i) => `${i === 0 ? "if" : "elseif"}(ANDROID_ABI STREQUAL "${arch}")
+  set(_skia_libraries ${libraries.join(" ")})`
+    )
+    .join("\n");
+
+  // The ABIs normally hold the same libraries; declare the dependencies of every one
+  const allLibraries = sortByLinkOrder([...new Set(abis.flatMap(({ libraries }) => libraries))]);
+  const dependencyBlocks = allLibraries
+    .map((library) => ({ library, dependencies: getLibraryDependencies(library, allLibraries) }))
+    .filter(({ dependencies }) => dependencies.length > 0)
+    .map(
+      ({ library, dependencies }) => `if(TARGET Skia::${library})
+  foreach(_skia_dependency IN ITEMS ${dependencies.join(" ")})
+    if(TARGET Skia::\${_skia_dependency})
+      set_property(TARGET Skia::${library} APPEND PROPERTY INTERFACE_LINK_LIBRARIES Skia::\${_skia_dependency})
+    endif()
+  endforeach()
+endif()`
+    )
+    .join("\n");
+
+  return `# Generated by react-native-skia-binaries for ${getPackageName(pkg, backend)} ${npmVersion}
+# (Skia ${skiaVersion}, ${getBackendLabel(backend)})
+#
+# Imported targets, for the ABI of the Android toolchain (ANDROID_ABI):
+#   Skia::<library>  one STATIC IMPORTED target per library, e.g. Skia::skia, Skia::svg
+#   Skia::all        every library, in link order
+#
+# Usage:
+#   set(Skia_DIR "\${NODE_MODULES_DIR}/${getPackageName(pkg, backend)}/cmake")
+#   find_package(Skia CONFIG REQUIRED)
+#   target_link_libraries(app PRIVATE Skia::all)
+
+if(TARGET Skia::all)
+  return()
+endif()
+
+set(Skia_SKIA_VERSION "${skiaVersion}")
+set(Skia_GRAPHITE ${isGraphite(backend) ? "ON" : "OFF"})
+
+get_filename_component(_skia_libs_dir "\${CMAKE_CURRENT_LIST_DIR}/../libs" ABSOLUTE)
+
+${abiBranches}
+else()
+  set(Skia_FOUND FALSE)
+  set(Skia_NOT_FOUND_MESSAGE
+    "No Skia libraries for ANDROID_ABI \\"\${ANDROID_ABI}\\" (available: ${abis.map(({ arch }) => arch).join(", ")})")
+  return()
+endif()
+
+foreach(_skia_library IN LISTS _skia_libraries)
+  add_library(Skia::\${_skia_library} STATIC IMPORTED)
+  set_target_properties(Skia::\${_skia_library} PROPERTIES
+    IMPORTED_LOCATION "\${_skia_libs_dir}/\${ANDROID_ABI}/lib\${_skia_library}.a"
+  )
+endforeach()
+
+# Each library links the libraries it uses
+${dependencyBlocks}
+
+list(TRANSFORM _skia_libraries PREPEND "Skia::" OUTPUT_VARIABLE _skia_targets)
+add_library(Skia::all INTERFACE IMPORTED)
+set_target_properties(Skia::all PROPERTIES INTERFACE_LINK_LIBRARIES "\${_skia_targets}")
+
+unset(_skia_libs_dir)
+unset(_skia_libraries)
+unset(_skia_library)
+unset(_skia_dependency)
+unset(_skia_targets)
+`;
+};
+
+export const generateCmakeConfigVersion = (npmVersion: string): string =>
+  `# Generated by react-native-skia-binaries
+set(PACKAGE_VERSION "${npmVersion}")
+
+if(PACKAGE_FIND_VERSION VERSION_GREATER PACKAGE_VERSION)
+  set(PACKAGE_VERSION_COMPATIBLE FALSE)
+else()
+  set(PACKAGE_VERSION_COMPATIBLE TRUE)
+  if(PACKAGE_FIND_VERSION STREQUAL PACKAGE_VERSION)
+    set(PACKAGE_VERSION_EXACT TRUE)
+  endif()
+endif()
+`;
+
+/**
+ * Write <pkgDir>/cmake/SkiaConfig.cmake and SkiaConfigVersion.cmake.
+ */
+export const writeCmakeConfig = (
+  pkgDir: string,
+  pkg: PackageConfig,
+  backend: Backend,
+  skiaVersion: string,
+  npmVersion: string,
+  abis: AbiLibraries[]
+): void => {
+  const cmakeDir = path.join(pkgDir, CMAKE_DIR);
+  fs.mkdirSync(cmakeDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(cmakeDir, CMAKE_CONFIG_FILE),
+    generateCmakeConfig(pkg, backend, skiaVersion, npmVersion, abis)
+  );
+  fs.writeFileSync(path.join(cmakeDir, CMAKE_VERSION_FILE), generateCmakeConfigVersion(npmVersion));
+};
+
+/**
+ * Libraries the generated SkiaConfig.cmake declares for each ABI.
+ */
+export const readCmakeConfigLibraries = (content: string): Map<string, string[]> => {
+  const declared = new Map<string, string[]>();
+  const pattern = /if\(ANDROID_ABI STREQUAL "([^"]+)"\)\n\s*set\(_skia_libraries ([^)]*)\)/g;
+  for (const match of content.matchAll(pattern)) {
+    declared.set(match[1], match[2].split(/\s+/).filter(Boolean));
+  }
+  return declared;
+};
@@ -0,0 +1,531 @@
+/**
+ * Loading and validation of skia-config.json.
+ *
+ * Each top-level key is a backend. "skia" and "skia-graphite" configure the
+ * built-in Ganesh and Graphite backends; any other key (e.g. "skia-graphite-vulkan")
+ * defines a backend derived from a built-in one:
+ *
+ *   {
+ *     "version": "m147a",              Skia milestone (required)
+ *     "checksums": { "<key>": "<sha256>" },
+ *     "patch": 1,                       npm patch version (default: 0)
+ *     "npmTag": "next",                 dist-tag the packages are published under
+ *     "packages": ["android"],          registry packages to generate (default: all)
+ *     "sizeBudgets": { ... },           see size-report.ts
+ *
+ *     "extends": "graphite",            built-in backend to derive from (default: ganesh)
+ *     "label": "Graphite (Vulkan)",     name shown in logs and READMEs
+ *     "releasePrefix": "...",           release tags are <releasePrefix>-<version>
+ *     "packagePrefix": "...",           npm names are react-native-<packagePrefix>-<package>
+ *     "artifactPrefix": "...",          replaces the built-in's asset name prefix
+ *     "prune": false,                   prune libraries to the library manifests
+ *     "strip": true,                    strip Android libraries by default
+ *     "marker": "vulkan.enabled"        marker file in Android libs/ (null for none)
+ *   }
+ *
+ * Prefixes of other keys default to the key itself. Every field but "extends"
+ * may also override a built-in backend.
+ *
+ * Checksums are required for every release artifact of the generated packages,
+ * except headers (common) packages, whose archives aren't pinned. The same rules
+ * are published as a JSON Schema (skia-config.schema.json, from buildConfigSchema).
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  BUILTIN_BACKENDS,
+  Backend,
+  BackendConfig,
+  BackendDefinition,
+  PackageConfig,
+  deriveBackendConfig,
+  findBuiltinBackend,
+  getConfigKey,
+  getPackageArtifacts,
+  getPackages,
+  isBuiltinBackend,
+  isChecksummed,
+  registerBackend,
+  resolveBackend,
+} from "./registry.js";
+import { SizeBudget } from "./size-report.js";
+import { Args } from "./utils.js";
+import { deriveNpmVersion } from "./version.js";
+
+export const CONFIG_SCHEMA_FILE = "skia-config.schema.json";
+
+export const DEFAULT_CONFIG_PATH = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "..",
+  "skia-config.json"
+);
+
+export interface SkiaConfig extends BackendDefinition {
+  version: string;
+  checksums?: Record<string, string>;
+  patch?: number;
+  npmTag?: string;
+  packages?: string[];
+  sizeBudgets?: Record<string, SizeBudget>;
+}
+
+export interface ConfigFile {
+  $schema?: string;
+  [configKey: string]: SkiaConfig | string | undefined;
+}
+
+const DEFINITION_KEYS: (keyof BackendDefinition)[] = [
+  "extends",
+  "label",
+  "releasePrefix",
+  "packagePrefix",
+  "artifactPrefix",
+  "prune",
+  "strip",
+  "marker",
+];
+const PREFIX_KEYS = ["releasePrefix", "packagePrefix", "artifactPrefix"] as const;
+const BACKEND_KEYS = ["version", "checksums", "patch", "npmTag", "packages", "sizeBudgets", ...DEFINITION_KEYS];
+const BUDGET_KEYS: (keyof SizeBudget)[] = ["maxBytes", "maxGzipBytes", "maxGrowthPercent"];
+const SHA256 = /^[0-9a-f]{64}$/;
+// Valid in release tags and npm package names
+const PREFIX = /^[a-z0-9][a-z0-9._-]*$/;
+const MARKER = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+// npm rejects dist-tags that parse as a version or range
+const NPM_TAG = /^(?![v=]?\d)[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checksum keys of every release artifact a backend's packages are built from.
+ */
+const getChecksumKeys = (packages: PackageConfig[]): string[] => [
+  ...new Set(packages.flatMap((pkg) => getPackageArtifacts(pkg).map((a) => a.checksumKey))),
+];
+
+/**
+ * The registry packages a backend block generates: its "packages" override, or all.
+ */
+export const selectPackages = (backend: Backend, skiaConfig: SkiaConfig): PackageConfig[] => {
+  const packages = getPackages(backend);
+  return skiaConfig.packages
+    ? packages.filter((pkg) => skiaConfig.packages!.includes(pkg.name))
+    : packages;
+};
+
+/**
+ * The backend definition fields of a block, skipping invalid ones (reported by
+ * validateDefinition) so the rest of the block can still be checked.
+ */
+const readDefinition = (key: string, value: Record<string, unknown>): BackendDefinition => {
+  const definition: BackendDefinition = {};
+  if (!findBuiltinBackend(key) && (BUILTIN_BACKENDS as unknown[]).includes(value.extends)) {
+    definition.extends = value.extends as BackendDefinition["extends"];
+  }
+  if (typeof value.label === "string" && value.label.length > 0) {
+    definition.label = value.label;
+  }
+  for (const field of PREFIX_KEYS) {
+    if (typeof value[field] === "string" && PREFIX.test(value[field] as string)) {
+      definition[field] = value[field] as string;
+    }
+  }
+  if (typeof value.prune === "boolean") {
+    definition.prune = value.prune;
+  }
+  if (typeof value.strip === "boolean") {
+    definition.strip = value.strip;
+  }
+  if (value.marker === null || (typeof value.marker === "string" && MARKER.test(value.marker))) {
+    definition.marker = value.marker;
+  }
+  return definition;
+};
+
+const validateDefinition = (key: string, value: Record<string, unknown>, problems: string[]): void => {
+  if (value.extends !== undefined) {
+    if (findBuiltinBackend(key)) {
+      problems.push(`${key}.extends: not allowed on a built-in backend`);
+    } else if (!(BUILTIN_BACKENDS as unknown[]).includes(value.extends)) {
+      problems.push(
+        `${key}.extends: expected a built-in backend (${BUILTIN_BACKENDS.join(", ")}), ` +
+          `got ${JSON.stringify(value.extends)}`
+      );
+    }
+  }
+  if (value.label !== undefined && !(typeof value.label === "string" && value.label.length > 0)) {
+    problems.push(`${key}.label: expected a non-empty string`);
+  }
+  for (const field of PREFIX_KEYS) {
+    const prefix = value[field];
+    if (prefix !== undefined && !(typeof prefix === "string" && PREFIX.test(prefix))) {
+      problems.push(
+        `${key}.${field}: expected lowercase letters, digits, ".", "_" or "-", got ${JSON.stringify(prefix)}`
+      );
+    }
+  }
+  for (const field of ["prune", "strip"]) {
+    if (value[field] !== undefined && typeof value[field] !== "boolean") {
+      problems.push(`${key}.${field}: expected true or false`);
+    }
+  }
+  if (
+    value.marker !== undefined &&
+    value.marker !== null &&
+    !(typeof value.marker === "string" && MARKER.test(value.marker))
+  ) {
+    problems.push(`${key}.marker: expected a file name or null, got ${JSON.stringify(value.marker)}`);
+  }
+};
+
+/**
+ * Backends must not share a release tag or npm package names.
+ */
+const validatePrefixes = (backendConfigs: BackendConfig[], problems: string[]): void => {
+  for (const field of ["releasePrefix", "packagePrefix"] as const) {
+    const owners = new Map<string, string>();
+    for (const backendConfig of backendConfigs) {
+      const owner = owners.get(backendConfig[field]);
+      if (owner) {
+        problems.push(
+          `${backendConfig.configKey}.${field}: "${backendConfig[field]}" is already used by ${owner}`
+        );
+      } else {
+        owners.set(backendConfig[field], backendConfig.configKey);
+      }
+    }
+  }
+};
+
+const validateBackendConfig = (
+  key: string,
+  value: Record<string, unknown>,
+  backendConfig: BackendConfig,
+  problems: string[]
+): void => {
+  for (const field of Object.keys(value)) {
+    if (!BACKEND_KEYS.includes(field)) {
+      problems.push(`${key}.${field}: unknown field (expected ${BACKEND_KEYS.join(", ")})`);
+    }
+  }
+
+  if (typeof value.version !== "string") {
+    problems.push(`${key}.version: missing (e.g. "m147a")`);
+  } else {
+    try {
+      deriveNpmVersion(value.version);
+    } catch (error) {
+      problems.push(`${key}.version: ${(error as Error).message}`);
+    }
+  }
+
+  if (value.patch !== undefined && !(Number.isInteger(value.patch) && (value.patch as number) >= 0)) {
+    problems.push(`${key}.patch: expected a non-negative integer, got ${JSON.stringify(value.patch)}`);
+  }
+
+  if (value.npmTag !== undefined && !(typeof value.npmTag === "string" && NPM_TAG.test(value.npmTag))) {
+    problems.push(
+      `${key}.npmTag: expected a dist-tag such as "next" (not a version), got ${JSON.stringify(value.npmTag)}`
+    );
+  }
+
+  const registryPackages = backendConfig.packages.map((pkg) => pkg.name);
+  let selected = backendConfig.packages;
+  if (value.packages !== undefined) {
+    if (!Array.isArray(value.packages) || value.packages.length === 0) {
+      problems.push(`${key}.packages: expected a non-empty array of package names`);
+    } else {
+      for (const name of value.packages) {
+        if (typeof name !== "string" || !registryPackages.includes(name)) {
+          problems.push(
+            `${key}.packages: unknown package ${JSON.stringify(name)} (expected ${registryPackages.join(", ")})`
+          );
+        }
+      }
+      selected = selected.filter((pkg) => (value.packages as unknown[]).includes(pkg.name));
+    }
+  }
+
+  const checksums = value.checksums ?? {};
+  if (!isObject(checksums)) {
+    problems.push(`${key}.checksums: expected an object`);
+  } else {
+    const knownKeys = getChecksumKeys(backendConfig.packages);
+    for (const [checksumKey, digest] of Object.entries(checksums)) {
+      if (!knownKeys.includes(checksumKey)) {
+        problems.push(
+          `${key}.checksums.${checksumKey}: unknown checksum key (expected ${knownKeys.join(", ")})`
+        );
+      } else if (typeof digest !== "string" || !SHA256.test(digest)) {
+        problems.push(
+          `${key}.checksums.${checksumKey}: expected a lowercase SHA-256 hex digest (64 characters), ` +
+            `got ${JSON.stringify(digest)}`
+        );
+      }
+    }
+    // Optional packages only have checksums for releases that provide their assets;
+    // generate-packages refuses one that is downloaded without its checksum
+    const requiredKeys = getChecksumKeys(
+      selected.filter((pkg) => isChecksummed(pkg) && !pkg.optional)
+    );
+    for (const checksumKey of requiredKeys) {
+      if (!(checksumKey in checksums)) {
+        problems.push(`${key}.checksums.${checksumKey}: missing`);
+      }
+    }
+  }
+
+  if (value.sizeBudgets !== undefined) {
+    if (!isObject(value.sizeBudgets)) {
+      problems.push(`${key}.sizeBudgets: expected an object`);
+    } else {
+      for (const [name, budget] of Object.entries(value.sizeBudgets)) {
+        const budgetKey = `${key}.sizeBudgets.${name}`;
+        if (name !== "*" && !registryPackages.includes(name)) {
+          problems.push(`${budgetKey}: unknown package (expected "*" or ${registryPackages.join(", ")})`);
+        }
+        if (!isObject(budget)) {
+          problems.push(`${budgetKey}: expected an object`);
+          continue;
+        }
+        for (const [field, limit] of Object.entries(budget)) {
+          if (!(BUDGET_KEYS as string[]).includes(field)) {
+            problems.push(`${budgetKey}.${field}: unknown field (expected ${BUDGET_KEYS.join(", ")})`);
+          } else if (typeof limit !== "number" || !(limit >= 0)) {
+            problems.push(`${budgetKey}.${field}: expected a non-negative number`);
+          }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Problems of every block, or with definitionsOnly, of the backend definitions.
+ */
+const validateBlocks = (config: unknown, definitionsOnly: boolean): string[] => {
+  if (!isObject(config)) {
+    return ["expected a JSON object"];
+  }
+
+  const problems: string[] = [];
+  const backendConfigs = new Map<string, BackendConfig>(
+    BUILTIN_BACKENDS.map((backend) => [getConfigKey(backend), deriveBackendConfig(getConfigKey(backend), {})])
+  );
+  for (const [key, value] of Object.entries(config)) {
+    if (key === "$schema") continue;
+    if (isBuiltinBackend(key)) {
+      problems.push(`${key}: reserved backend name (configure it under "${getConfigKey(key)}")`);
+      continue;
+    }
+    if (!isObject(value)) {
+      problems.push(`${key}: expected an object`);
+      continue;
+    }
+    const backendConfig = deriveBackendConfig(key, readDefinition(key, value));
+    backendConfigs.set(key, backendConfig);
+    validateDefinition(key, value, problems);
+    if (!definitionsOnly) {
+      validateBackendConfig(key, value, backendConfig, problems);
+    }
+  }
+  validatePrefixes([...backendConfigs.values()], problems);
+  return problems;
+};
+
+/**
+ * Validate a parsed config. Returns a list of problems, each prefixed with the
+ * path of the offending field.
+ */
+export const validateConfig = (config: unknown): string[] => validateBlocks(config, false);
+
+/**
+ * Register the backends a config defines, replacing built-ins it overrides.
+ * The config must have been validated.
+ */
+export const registerBackends = (config: ConfigFile): void => {
+  for (const [key, value] of Object.entries(config)) {
+    if (key === "$schema" || !isObject(value)) continue;
+    registerBackend(deriveBackendConfig(key, readDefinition(key, value)));
+  }
+};
+
+/**
+ * Read a config file without validating it (e.g. to rewrite it).
+ */
+export const readConfigFile = (configPath: string): ConfigFile => {
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Config file not found: ${configPath}`);
+  }
+  try {
+    return JSON.parse(fs.readFileSync(configPath, "utf8")) as ConfigFile;
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${configPath}: ${(error as Error).message}`);
+  }
+};
+
+const formatProblems = (configPath: string, problems: string[]): string =>
+  `Invalid config ${configPath}:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`;
+
+/**
+ * Read and validate a config file, and register the backends it defines.
+ * Throws listing every problem found.
+ */
+export const loadConfig = (configPath: string): ConfigFile => {
+  const config = readConfigFile(configPath);
+  const problems = validateConfig(config);
+  if (problems.length > 0) {
+    throw new Error(formatProblems(configPath, problems));
+  }
+  registerBackends(config);
+  return config;
+};
+
+/**
+ * Register the backends defined in a config file, for scripts that don't
+ * otherwise read the config. Only the backend definitions must be valid, and
+ * a missing file leaves the built-in backends.
+ */
+export const loadBackends = (configPath: string = DEFAULT_CONFIG_PATH): void => {
+  if (!fs.existsSync(configPath)) return;
+  const config = readConfigFile(configPath);
+  const problems = validateBlocks(config, true);
+  if (problems.length > 0) {
+    throw new Error(formatProblems(configPath, problems));
+  }
+  registerBackends(config);
+};
+
+/**
+ * The backend selected by --backend=<name or config key>, or --graphite.
+ */
+export const getBackendArg = (args: Args, fallback: Backend = "ganesh"): Backend => {
+  if (typeof args.backend === "string") {
+    return resolveBackend(args.backend);
+  }
+  return args.graphite === true ? "graphite" : fallback;
+};
+
+export const getBackendConfig = (config: ConfigFile, backend: Backend): SkiaConfig | undefined =>
+  config[getConfigKey(backend)] as SkiaConfig | undefined;
+
+/**
+ * JSON Schema for skia-config.json, derived from the registry so checksum keys
+ * and package names stay in sync.
+ */
+export const buildConfigSchema = (): Record<string, unknown> => {
+  const budget = {
+    type: "object",
+    additionalProperties: false,
+    properties: Object.fromEntries(BUDGET_KEYS.map((key) => [key, { type: "number", minimum: 0 }])),
+  };
+
+  const prefix = { type: "string", pattern: PREFIX.source };
+  const definition = {
+    label: { type: "string", minLength: 1, description: "Name shown in logs and READMEs" },
+    releasePrefix: { ...prefix, description: "Release tags are <releasePrefix>-<version>" },
+    packagePrefix: { ...prefix, description: "npm names are react-native-<packagePrefix>-<package>" },
+    artifactPrefix: { ...prefix, description: "Prefix of the release asset names" },
+    prune: { type: "boolean", description: "Prune libraries to the library manifests" },
+    strip: { type: "boolean", description: "Strip debug symbols from Android libraries by default" },
+    marker: {
+      type: ["string", "null"],
+      pattern: MARKER.source,
+      description: "Marker file written to libs/ of Android packages (null for none)",
+    },
+  };
+
+  const backendSchema = (
+    description: string,
+    packages: PackageConfig[],
+    extra: Record<string, unknown> = {}
+  ): Record<string, unknown> => {
+    const names = [...new Set(packages.map((pkg) => pkg.name))];
+    return {
+      type: "object",
+      description,
+      additionalProperties: false,
+      required: ["version"],
+      properties: {
+        ...extra,
+        version: {
+          type: "string",
+          description: "Skia milestone, e.g. m147a (m147a → npm 147.1.x)",
+          pattern: "^m\\d+[a-z]?$",
+        },
+        checksums: {
+          type: "object",
+          description:
+            "SHA-256 of each release artifact; required for every generated package except headers",
+          additionalProperties: false,
+          properties: Object.fromEntries(
+            getChecksumKeys(packages).map((key) => [key, { type: "string", pattern: SHA256.source }])
+          ),
+        },
+        patch: { type: "integer", minimum: 0, description: "npm patch version (default: 0)" },
+        npmTag: { type: "string", pattern: NPM_TAG.source, description: "npm dist-tag to publish under" },
+        packages: {
+          type: "array",
+          description: "Registry packages to generate (default: all)",
+          minItems: 1,
+          uniqueItems: true,
+          items: { enum: names },
+        },
+        sizeBudgets: {
+          type: "object",
+          additionalProperties: false,
+          properties: Object.fromEntries(["*", ...names].map((name) => [name, budget])),
+        },
+        ...definition,
+      },
+    };
+  };
+
+  const builtins = BUILTIN_BACKENDS.map((backend) => deriveBackendConfig(getConfigKey(backend), {}));
+
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "skia-config.json",
+    description: "Skia versions and artifact checksums for react-native-skia-binaries",
+    type: "object",
+    properties: {
+      $schema: { type: "string" },
+      ...Object.fromEntries(
+        builtins.map(({ configKey, label, packages }) => [
+          configKey,
+          backendSchema(`${label} backend`, packages),
+        ])
+      ),
+    },
+    additionalProperties: backendSchema(
+      "Backend derived from a built-in one",
+      builtins.flatMap(({ packages }) => packages),
+      {
+        extends: {
+          enum: BUILTIN_BACKENDS,
+          description: "Built-in backend to derive from (default: ganesh)",
+        },
+      }
+    ),
+  };
+};
+
+/**
+ * Write the JSON Schema next to the config, or with check, report whether the
+ * committed one is up to date.
+ */
+export const writeConfigSchema = (dir: string, check = false): boolean => {
+  const schemaPath = path.join(dir, CONFIG_SCHEMA_FILE);
+  const content = JSON.stringify(buildConfigSchema(), null, 2) + "\n";
+  const current = fs.existsSync(schemaPath) ? fs.readFileSync(schemaPath, "utf8") : null;
+  if (check) {
+    return current === content;
+  }
+  if (current !== content) {
+    fs.writeFileSync(schemaPath, content);
+  }
+  return true;
+};
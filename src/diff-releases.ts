@@ -0,0 +1,364 @@
+/**
+ * Script to compare the binaries of two Skia releases.
+ *
+ * Usage:
+ *   npx tsx src/diff-releases.ts --from=m146b --to=m147a
+ *   npx tsx src/diff-releases.ts --from=m146b --to=m147a --backend=graphite
+ *   npx tsx src/diff-releases.ts --from=m146b --to=m147a --json
+ *   npx tsx src/diff-releases.ts --from=m146b --to=m147a --json=diff.json
+ *
+ * Options:
+ *   --from          Skia version to compare from (e.g., m146b)
+ *   --to            Skia version to compare to (e.g., m147a)
+ *   --backend       Backend to compare: ganesh, graphite, or one defined in the config,
+ *                   by name or config key (default: ganesh)
+ *   --graphite      Same as --backend=graphite
+ *   --config        Config file defining additional backends (default: ./skia-config.json)
+ *   --json          Print the diff as JSON instead of text; --json=<file> writes it to a
+ *                   file and still prints text
+ *   --concurrency   Number of artifacts downloaded in parallel (default: 4)
+ *   --source        Read assets from a local directory (file:///path/to/assets)
+ *   --mirror        Download assets from a mirror laid out as <mirror>/<release-tag>/<asset>
+ *   --repo          GitHub repository to download releases from (default: shopify/react-native-skia)
+ *   --cache-dir     Cache directory for downloaded archives
+ *   --no-cache      Always download, without reading or writing the cache
+ *
+ * Downloads both releases using the same artifact definitions as download-binaries
+ * and reports, per package: libraries added, removed or resized per arch (Android
+ * ABI, xcframework slice, or CPU of Linux and Windows packages), xcframework slices
+ * that appeared or disappeared, and changed headers. An optional package missing
+ * from a release shows all its libraries as added or removed.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { resolveCacheDir } from "./artifact-cache.js";
+import { AssetSource, describeAssetSource, resolveAssetSource } from "./asset-source.js";
+import { DEFAULT_CONFIG_PATH, getBackendArg, loadBackends } from "./config.js";
+import { downloadAndExtractAsset, isAssetNotFound } from "./download.js";
+import {
+  Backend,
+  PackageConfig,
+  getBackendLabel,
+  getPackageArtifacts,
+  getPackageName,
+  getPackages,
+  getReleaseTag,
+  isDesktopPlatform,
+} from "./registry.js";
+import { createLimiter, resolveConcurrency, settleAll } from "./scheduler.js";
+import { formatBytes, getSize, parseArgs } from "./utils.js";
+
+type Change = "added" | "removed";
+
+interface LibraryChange {
+  arch: string;
+  library: string;
+  change: Change | "resized";
+  fromBytes?: number;
+  toBytes?: number;
+}
+
+interface SliceChange {
+  xcframework: string;
+  slice: string;
+  change: Change;
+}
+
+interface HeaderChange {
+  path: string;
+  change: Change | "modified";
+}
+
+interface PackageDiff {
+  package: string;
+  libraries: LibraryChange[];
+  slices: SliceChange[];
+  headers: HeaderChange[];
+}
+
+interface ReleaseDiff {
+  backend: Backend;
+  from: string;
+  to: string;
+  packages: PackageDiff[];
+}
+
+/**
+ * What a package contains in one release.
+ */
+interface PackageInventory {
+  // arch -> library -> bytes
+  libraries: Map<string, Map<string, number>>;
+  // xcframework -> slice identifiers
+  slices: Map<string, Set<string>>;
+  // header path -> content hash
+  headers: Map<string, string>;
+}
+
+const listDirs = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs
+        .readdirSync(dir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+    : [];
+
+const hashHeaders = (dir: string, base: string, headers: Map<string, string>): void => {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      hashHeaders(fullPath, base, headers);
+    } else if (entry.isFile()) {
+      const hash = crypto.createHash("sha256").update(fs.readFileSync(fullPath)).digest("hex");
+      headers.set(path.relative(base, fullPath).split(path.sep).join("/"), hash);
+    }
+  }
+};
+
+const takeInventory = (pkgDir: string, pkg: PackageConfig): PackageInventory => {
+  const inventory: PackageInventory = {
+    libraries: new Map(),
+    slices: new Map(),
+    headers: new Map(),
+  };
+
+  if (pkg.platform === "android") {
+    for (const { arch } of pkg.androidArchs ?? []) {
+      const archDir = path.join(pkgDir, arch);
+      if (!fs.existsSync(archDir)) continue;
+      const libs = new Map<string, number>();
+      for (const name of fs.readdirSync(archDir)) {
+        libs.set(name, getSize(path.join(archDir, name)));
+      }
+      inventory.libraries.set(arch, libs);
+    }
+  } else if (pkg.platform === "apple") {
+    for (const xcframework of listDirs(pkgDir).filter((name) => name.endsWith(".xcframework"))) {
+      const slices = listDirs(path.join(pkgDir, xcframework));
+      inventory.slices.set(xcframework, new Set(slices));
+      for (const slice of slices) {
+        const libs = inventory.libraries.get(slice) ?? new Map<string, number>();
+        libs.set(xcframework, getSize(path.join(pkgDir, xcframework, slice)));
+        inventory.libraries.set(slice, libs);
+      }
+    }
+  } else if (isDesktopPlatform(pkg.platform)) {
+    if (fs.existsSync(pkgDir)) {
+      const libs = new Map<string, number>();
+      for (const name of fs.readdirSync(pkgDir)) {
+        libs.set(name, getSize(path.join(pkgDir, name)));
+      }
+      inventory.libraries.set(pkg.cpu ?? "libs", libs);
+    }
+  } else if (fs.existsSync(pkgDir)) {
+    hashHeaders(pkgDir, pkgDir, inventory.headers);
+  }
+
+  return inventory;
+};
+
+const sortedUnion = <T>(a: Iterable<T>, b: Iterable<T>): T[] =>
+  [...new Set([...a, ...b])].sort();
+
+const diffPackage = (
+  packageName: string,
+  before: PackageInventory,
+  after: PackageInventory
+): PackageDiff => {
+  const diff: PackageDiff = { package: packageName, libraries: [], slices: [], headers: [] };
+
+  for (const arch of sortedUnion(before.libraries.keys(), after.libraries.keys())) {
+    const fromLibs = before.libraries.get(arch) ?? new Map<string, number>();
+    const toLibs = after.libraries.get(arch) ?? new Map<string, number>();
+    for (const library of sortedUnion(fromLibs.keys(), toLibs.keys())) {
+      const fromBytes = fromLibs.get(library);
+      const toBytes = toLibs.get(library);
+      if (fromBytes === undefined) {
+        diff.libraries.push({ arch, library, change: "added", toBytes });
+      } else if (toBytes === undefined) {
+        diff.libraries.push({ arch, library, change: "removed", fromBytes });
+      } else if (fromBytes !== toBytes) {
+        diff.libraries.push({ arch, library, change: "resized", fromBytes, toBytes });
+      }
+    }
+  }
+
+  for (const xcframework of sortedUnion(before.slices.keys(), after.slices.keys())) {
+    const fromSlices = before.slices.get(xcframework) ?? new Set<string>();
+    const toSlices = after.slices.get(xcframework) ?? new Set<string>();
+    for (const slice of sortedUnion(fromSlices, toSlices)) {
+      if (!fromSlices.has(slice)) {
+        diff.slices.push({ xcframework, slice, change: "added" });
+      } else if (!toSlices.has(slice)) {
+        diff.slices.push({ xcframework, slice, change: "removed" });
+      }
+    }
+  }
+
+  for (const header of sortedUnion(before.headers.keys(), after.headers.keys())) {
+    const fromHash = before.headers.get(header);
+    const toHash = after.headers.get(header);
+    if (fromHash === undefined) {
+      diff.headers.push({ path: header, change: "added" });
+    } else if (toHash === undefined) {
+      diff.headers.push({ path: header, change: "removed" });
+    } else if (fromHash !== toHash) {
+      diff.headers.push({ path: header, change: "modified" });
+    }
+  }
+
+  return diff;
+};
+
+const formatResize = (fromBytes: number, toBytes: number): string => {
+  const percent = fromBytes > 0 ? ((toBytes - fromBytes) / fromBytes) * 100 : 0;
+  return `${formatBytes(fromBytes)} → ${formatBytes(toBytes)} (${percent >= 0 ? "+" : ""}${percent.toFixed(1)}%)`;
+};
+
+const MARKERS = { added: "+", removed: "-", resized: "~", modified: "~" };
+
+const printDiff = (diff: ReleaseDiff): void => {
+  let libraryChanges = 0;
+  let sliceChanges = 0;
+  let headerChanges = 0;
+
+  for (const pkg of diff.packages) {
+    console.log(pkg.package);
+    if (pkg.libraries.length + pkg.slices.length + pkg.headers.length === 0) {
+      console.log("  = no changes");
+    }
+
+    let arch: string | undefined;
+    for (const lib of pkg.libraries) {
+      if (lib.arch !== arch) {
+        arch = lib.arch;
+        console.log(`  ${arch}`);
+      }
+      const detail =
+        lib.change === "resized"
+          ? formatResize(lib.fromBytes!, lib.toBytes!)
+          : formatBytes((lib.toBytes ?? lib.fromBytes)!);
+      console.log(`    ${MARKERS[lib.change]} ${lib.library} ${detail}`);
+    }
+    if (pkg.slices.length > 0) {
+      console.log("  xcframework slices");
+      for (const slice of pkg.slices) {
+        console.log(`    ${MARKERS[slice.change]} ${slice.xcframework}/${slice.slice}`);
+      }
+    }
+    if (pkg.headers.length > 0) {
+      console.log("  headers");
+      for (const header of pkg.headers) {
+        console.log(`    ${MARKERS[header.change]} ${header.path}`);
+      }
+    }
+    console.log("");
+
+    libraryChanges += pkg.libraries.length;
+    sliceChanges += pkg.slices.length;
+    headerChanges += pkg.headers.length;
+  }
+
+  console.log(
+    `${libraryChanges} library change(s), ${sliceChanges} slice change(s), ${headerChanges} header change(s)`
+  );
+};
+
+const main = async (): Promise<void> => {
+  const args = parseArgs();
+
+  if (!args.from || !args.to) {
+    console.error("Error: --from and --to are required");
+    console.error("Usage: npx tsx src/diff-releases.ts --from=m146b --to=m147a [--backend=graphite]");
+    process.exit(1);
+  }
+
+  const from = args.from as string;
+  const to = args.to as string;
+  const jsonToStdout = args.json === true;
+  const jsonFile = typeof args.json === "string" ? args.json : undefined;
+  const cacheDir = resolveCacheDir(args);
+
+  let backend: Backend;
+  let source: AssetSource;
+  let concurrency: number;
+  try {
+    loadBackends(path.resolve((args.config as string) || DEFAULT_CONFIG_PATH));
+    backend = getBackendArg(args);
+    source = resolveAssetSource(args);
+    concurrency = resolveConcurrency(args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  // Progress goes to stderr so --json output stays parseable
+  console.error(`Comparing ${getBackendLabel(backend)} ${from} → ${to}...`);
+  console.error(`  Source: ${describeAssetSource(source)}`);
+  console.error("");
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "skia-diff-"));
+  const limit = createLimiter(concurrency);
+  const packages = getPackages(backend);
+
+  try {
+    // Same layout as download-binaries: <version>/<package>/<destSubdir>
+    const downloads = [from, to].flatMap((version) =>
+      packages.flatMap((pkg) =>
+        getPackageArtifacts(pkg).map((artifact) =>
+          limit(async () => {
+            const destDir = path.join(workDir, version, pkg.name, artifact.destSubdir);
+            try {
+              await downloadAndExtractAsset(
+                artifact.artifact,
+                getReleaseTag(backend, version),
+                destDir,
+                artifact.srcSubdir,
+                { source, cacheDir, log: (message) => console.error(message) }
+              );
+            } catch (error) {
+              if (!pkg.optional || !isAssetNotFound(error)) throw error;
+              fs.rmSync(destDir, { recursive: true, force: true });
+              console.error(`  [-] Skipped ${pkg.name} in ${version}: ${(error as Error).message}`);
+            }
+          })
+        )
+      )
+    );
+    await settleAll(downloads);
+    console.error("");
+
+    const diff: ReleaseDiff = {
+      backend,
+      from,
+      to,
+      packages: packages.map((pkg) =>
+        diffPackage(
+          getPackageName(pkg, backend),
+          takeInventory(path.join(workDir, from, pkg.name), pkg),
+          takeInventory(path.join(workDir, to, pkg.name), pkg)
+        )
+      ),
+    };
+
+    const json = JSON.stringify(diff, null, 2);
+    if (jsonFile) {
+      fs.writeFileSync(jsonFile, json + "\n");
+    }
+    if (jsonToStdout) {
+      console.log(json);
+    } else {
+      printDiff(diff);
+    }
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+};
+
+main();
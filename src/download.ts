@@ -0,0 +1,461 @@
+/**
+ * Download and extraction of Skia release assets.
+ */
+
+import fs from "fs";
+import http from "http";
+import https from "https";
+import path from "path";
+import os from "os";
+import {
+  AssetSource,
+  DEFAULT_REPO,
+  getDownloadUrl,
+  getLocalAssetPath,
+} from "./asset-source.js";
+import {
+  evictCachedArchive,
+  getCachedArchive,
+  getPartialDownloadPath,
+  storeCachedArchive,
+} from "./artifact-cache.js";
+import { calculateDirectoryChecksum } from "./checksums.js";
+import {
+  getAuthHeaders,
+  getGitHubToken,
+  redactToken,
+  resolveReleaseAssetUrl,
+} from "./github.js";
+import { getAssetName } from "./registry.js";
+import {
+  RetryableError,
+  SOCKET_TIMEOUT_MS,
+  getRetryDelay,
+  getServerRetryDelay,
+  isRetryable,
+} from "./retry.js";
+import { logLine, trackDownload } from "./scheduler.js";
+import { extractTarGz } from "./tar.js";
+import { copyEntry, formatBytes, sleep } from "./utils.js";
+
+export type DownloadError = RetryableError;
+
+// DownloadError code of a release asset that doesn't exist in the source
+export const ASSET_NOT_FOUND = "ASSET_NOT_FOUND";
+
+/**
+ * Whether a download failed because the release doesn't provide the asset
+ * (as opposed to a network or extraction failure).
+ */
+export const isAssetNotFound = (error: unknown): boolean =>
+  (error as DownloadError).code === ASSET_NOT_FOUND;
+
+// DownloadError code of extracted contents that don't match the expected checksum
+export const CHECKSUM_MISMATCH = "CHECKSUM_MISMATCH";
+
+export const isChecksumMismatch = (error: unknown): boolean =>
+  (error as DownloadError).code === CHECKSUM_MISMATCH;
+
+export interface DownloadToFileOptions {
+  maxRetries?: number;
+  // Called as bytes arrive; total comes from Content-Length when the server sends it
+  onProgress?: (received: number, total: number | undefined) => void;
+  // Output for retry messages (default: stdout)
+  log?: (message: string) => void;
+  // Extra request headers. Authorization is only sent to the original host, never to redirects
+  headers?: Record<string, string>;
+}
+
+const getFileSize = (filePath: string): number =>
+  fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+
+/**
+ * Downloads a URL to a file.
+ *
+ * Interrupted downloads are resumed with a Range request when the server
+ * advertises Accept-Ranges, and the finished file is checked against the
+ * size the server announced. A partial file already at destPath, left by an
+ * earlier run, is resumed too, and kept when the download is interrupted again. Network errors, socket timeouts, 5xx responses
+ * and rate limits are retried, honoring Retry-After / x-ratelimit-reset.
+ */
+export const downloadToFile = (
+  url: string,
+  destPath: string,
+  { maxRetries = 5, onProgress, log = console.log, headers: extraHeaders = {} }: DownloadToFileOptions = {}
+): Promise<void> => {
+  const originalHost = new URL(url).host;
+  fs.mkdirSync(path.dirname(destPath), { recursive: true });
+
+  // Whether to resume from the bytes on disk: first because an earlier run left
+  // a partial file, then because the server advertised Accept-Ranges. A server
+  // that ignores the Range header (200) or rejects it (416) gets a full download
+  let resumable = getFileSize(destPath) > 0;
+  // The full size the server announced
+  let expectedSize: number | undefined;
+
+  const attemptDownload = (): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      const offset = resumable ? getFileSize(destPath) : 0;
+
+      const request = (currentUrl: string): void => {
+        const headers: Record<string, string> = { "User-Agent": "node", ...extraHeaders };
+        // Credentials stay with the host they were meant for (e.g. not sent on to S3)
+        if (new URL(currentUrl).host !== originalHost) {
+          delete headers.Authorization;
+        }
+        if (offset > 0) {
+          headers.Range = `bytes=${offset}-`;
+        }
+
+        // Mirrors may be served over plain HTTP
+        const client = currentUrl.startsWith("http://") ? http : https;
+        const req = client.get(currentUrl, { headers }, (res) => {
+          if (
+            res.statusCode &&
+            [301, 302, 303, 307, 308].includes(res.statusCode)
+          ) {
+            const { location } = res.headers;
+            if (location) {
+              res.resume();
+              request(new URL(location, currentUrl).toString());
+            } else {
+              reject(new Error(`Redirect without location for ${currentUrl}`));
+            }
+            return;
+          }
+
+          const resumed = offset > 0 && res.statusCode === 206;
+          if (offset > 0 && res.statusCode === 416) {
+            // The partial file doesn't fit this resource: start over, without using up a retry
+            res.resume();
+            resumable = false;
+            fs.rmSync(destPath, { force: true });
+            attemptDownload().then(resolve, reject);
+            return;
+          }
+          if (res.statusCode !== 200 && !resumed) {
+            const error: DownloadError = new Error(
+              `Failed to download: ${res.statusCode} ${res.statusMessage}`
+            );
+            error.statusCode = res.statusCode;
+            error.retryAfterMs = getServerRetryDelay(res.headers);
+            res.resume();
+            reject(error);
+            return;
+          }
+
+          // A server that resumes from a different offset than requested can't be appended to
+          const rangeStart = /^bytes (\d+)-/.exec(res.headers["content-range"] ?? "")?.[1];
+          if (resumed && Number(rangeStart) !== offset) {
+            resumable = false;
+            res.resume();
+            const error: DownloadError = new Error(
+              `Server resumed at byte ${rangeStart ?? "?"} instead of ${offset}`
+            );
+            error.code = "ERR_INCOMPLETE_DOWNLOAD";
+            reject(error);
+            return;
+          }
+
+          const contentLength = parseInt(res.headers["content-length"] ?? "", 10);
+          if (!Number.isNaN(contentLength)) {
+            expectedSize = (resumed ? offset : 0) + contentLength;
+          }
+          if (!resumed) {
+            resumable = res.headers["accept-ranges"] === "bytes";
+          }
+
+          let received = resumed ? offset : 0;
+          if (onProgress) {
+            res.on("data", (chunk: Buffer) => {
+              received += chunk.length;
+              onProgress(received, expectedSize);
+            });
+          }
+
+          // Append to the partial file when resuming, otherwise (re)start it
+          const fileStream = fs.createWriteStream(destPath, { flags: resumed ? "a" : "w" });
+          res.pipe(fileStream);
+
+          fileStream.on("finish", () => {
+            fileStream.close((err) => {
+              if (err) {
+                reject(err);
+                return;
+              }
+              const size = getFileSize(destPath);
+              if (expectedSize !== undefined && size !== expectedSize) {
+                const error: DownloadError = new Error(
+                  `Incomplete download: got ${size} of ${expectedSize} bytes`
+                );
+                error.code = "ERR_INCOMPLETE_DOWNLOAD";
+                reject(error);
+                return;
+              }
+              resolve();
+            });
+          });
+
+          // Keep the partial file for a resumable server, so the retry picks up where we stopped
+          const cleanup = (error: Error): void => {
+            fileStream.destroy();
+            if (resumable) {
+              reject(error);
+            } else {
+              fs.unlink(destPath, () => reject(error));
+            }
+          };
+
+          res.on("error", cleanup);
+          fileStream.on("error", cleanup);
+        });
+
+        req.setTimeout(SOCKET_TIMEOUT_MS, () => {
+          const error: DownloadError = new Error(
+            `Socket timed out after ${SOCKET_TIMEOUT_MS / 1000}s`
+          );
+          error.code = "ETIMEDOUT";
+          req.destroy(error);
+        });
+        req.on("error", reject);
+      };
+
+      request(url);
+    });
+  };
+
+  const downloadWithRetry = async (retryCount = 0): Promise<void> => {
+    try {
+      await attemptDownload();
+    } catch (error) {
+      const downloadError = error as DownloadError;
+
+      if (retryCount < maxRetries && isRetryable(downloadError)) {
+        const delay = getRetryDelay(downloadError, retryCount);
+        const partialSize = resumable ? getFileSize(destPath) : 0;
+        log(
+          `      ${redactToken(downloadError.message)}; retry ${retryCount + 1}/${maxRetries} for ${path.basename(destPath)} in ${Math.ceil(delay / 1000)}s` +
+            (partialSize > 0 ? `, resuming at ${formatBytes(partialSize)}` : "") +
+            "..."
+        );
+        await sleep(delay);
+        return downloadWithRetry(retryCount + 1);
+      } else {
+        // An interrupted download from a resumable server is kept for the next run
+        if (!(resumable && isRetryable(downloadError))) {
+          fs.rmSync(destPath, { force: true });
+        }
+        downloadError.message = redactToken(downloadError.message);
+        throw downloadError;
+      }
+    }
+  };
+
+  return downloadWithRetry();
+};
+
+export interface DownloadOptions {
+  // Where assets come from (default: GitHub releases)
+  source?: AssetSource;
+  // Cache directory for release archives; downloads to a temp dir only when omitted
+  cacheDir?: string;
+  // Checksum expected for the extracted contents, used to validate cache hits
+  expectedChecksum?: string;
+  // Refuse to install contents that don't match expectedChecksum (or when it is missing)
+  verifyChecksum?: boolean;
+  // Output for progress messages (default: stdout)
+  log?: (message: string) => void;
+}
+
+/**
+ * Returns a local path to the release archive, from the cache when possible.
+ */
+const fetchArchive = async (
+  releaseTag: string,
+  assetName: string,
+  tempDir: string,
+  options: DownloadOptions,
+  useCached: boolean
+): Promise<{ archivePath: string; fromCache: boolean }> => {
+  const {
+    cacheDir,
+    source = { kind: "github", repo: DEFAULT_REPO },
+    log = logLine,
+  } = options;
+
+  // Local assets are read in place and never cached
+  if (source.kind === "file") {
+    const localPath = getLocalAssetPath(source, releaseTag, assetName);
+    if (!localPath) {
+      const error: DownloadError = new Error(`Asset ${assetName} not found in ${source.dir}`);
+      error.code = ASSET_NOT_FOUND;
+      throw error;
+    }
+    log(`      Using local ${localPath}`);
+    return { archivePath: localPath, fromCache: false };
+  }
+
+  if (cacheDir && useCached) {
+    const cachedPath = await getCachedArchive(cacheDir, releaseTag, assetName, log);
+    if (cachedPath) {
+      log(`      Using cached ${assetName}`);
+      return { archivePath: cachedPath, fromCache: true };
+    }
+  }
+
+  // In the cache, a partial download survives the run and is resumed by the next one
+  const archivePath = cacheDir
+    ? getPartialDownloadPath(cacheDir, releaseTag, assetName)
+    : path.join(tempDir, assetName);
+  try {
+    // With a token, go through the releases API (authenticated rate limit, drafts, private repos)
+    const token = source.kind === "github" ? getGitHubToken() : undefined;
+    const downloadUrl =
+      source.kind === "github" && token
+        ? await resolveReleaseAssetUrl(source.repo, releaseTag, assetName, token, log)
+        : getDownloadUrl(source, releaseTag, assetName);
+    const headers = token
+      ? { ...getAuthHeaders(token), Accept: "application/octet-stream" }
+      : {};
+
+    log(`      Downloading ${assetName}...`);
+    const progress = trackDownload(assetName);
+    try {
+      await downloadToFile(downloadUrl, archivePath, {
+        onProgress: progress.update,
+        log,
+        headers,
+      });
+    } finally {
+      log(`      Downloaded ${assetName}: ${progress.finish()}`);
+    }
+  } catch (error) {
+    // The release API and release download URLs both answer 404 for a missing asset
+    if ((error as DownloadError).statusCode === 404) {
+      (error as DownloadError).code = ASSET_NOT_FOUND;
+    }
+    throw error;
+  }
+
+  if (cacheDir) {
+    return {
+      archivePath: await storeCachedArchive(cacheDir, releaseTag, assetName, archivePath),
+      fromCache: false,
+    };
+  }
+  return { archivePath, fromCache: false };
+};
+
+/**
+ * Extracts an archive and returns the directory holding the artifact contents.
+ */
+const extractArtifact = async (
+  archivePath: string,
+  extractDir: string,
+  srcSubdir?: string
+): Promise<string> => {
+  await extractTarGz(archivePath, extractDir);
+
+  // Find the extracted content
+  const extractedContents = fs.readdirSync(extractDir);
+
+  if (extractedContents.length === 0) {
+    throw new Error("Archive extracted but no contents found");
+  }
+
+  // Navigate to source directory
+  let sourceDir = extractDir;
+
+  // If there's a single top-level directory, descend into it
+  if (
+    extractedContents.length === 1 &&
+    fs.statSync(path.join(extractDir, extractedContents[0])).isDirectory()
+  ) {
+    sourceDir = path.join(extractDir, extractedContents[0]);
+
+    // Check if there's a subdir matching srcSubdir
+    if (
+      srcSubdir &&
+      fs.existsSync(path.join(sourceDir, srcSubdir)) &&
+      fs.statSync(path.join(sourceDir, srcSubdir)).isDirectory()
+    ) {
+      sourceDir = path.join(sourceDir, srcSubdir);
+    }
+  }
+
+  return sourceDir;
+};
+
+/**
+ * Downloads and extracts a release asset into destDir.
+ * Returns the checksum of the extracted artifact contents, computed before they are copied.
+ * With verifyChecksum, nothing is copied unless that checksum is expectedChecksum.
+ */
+export const downloadAndExtractAsset = async (
+  artifact: string,
+  releaseTag: string,
+  destDir: string,
+  srcSubdir?: string,
+  options: DownloadOptions = {}
+): Promise<string | null> => {
+  const assetName = getAssetName(artifact, releaseTag);
+  const log = options.log ?? logLine;
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "skia-download-"));
+  const extractDir = path.join(tempDir, "extracted");
+
+  try {
+    const fetched = await fetchArchive(
+      releaseTag,
+      assetName,
+      tempDir,
+      options,
+      true
+    );
+    let { archivePath } = fetched;
+
+    log(`      Extracting...`);
+    let sourceDir = await extractArtifact(archivePath, extractDir, srcSubdir);
+    let checksum = calculateDirectoryChecksum(sourceDir);
+
+    // A cached archive that doesn't produce the expected contents is refetched once
+    if (fetched.fromCache && options.expectedChecksum && checksum !== options.expectedChecksum) {
+      log(`      Cached ${assetName} failed checksum validation, refetching...`);
+      evictCachedArchive(options.cacheDir!, releaseTag, assetName);
+      fs.rmSync(extractDir, { recursive: true, force: true });
+
+      ({ archivePath } = await fetchArchive(
+        releaseTag,
+        assetName,
+        tempDir,
+        options,
+        false
+      ));
+      log(`      Extracting...`);
+      sourceDir = await extractArtifact(archivePath, extractDir, srcSubdir);
+      checksum = calculateDirectoryChecksum(sourceDir);
+    }
+
+    if (options.verifyChecksum && checksum !== options.expectedChecksum) {
+      const error: DownloadError = new Error(
+        options.expectedChecksum === undefined
+          ? `No checksum configured for ${assetName} (actual: ${checksum})`
+          : `Checksum mismatch for ${assetName}: expected ${options.expectedChecksum}, got ${checksum}`
+      );
+      error.code = CHECKSUM_MISMATCH;
+      throw error;
+    }
+
+    // Copy contents to destination
+    fs.mkdirSync(destDir, { recursive: true });
+    for (const item of fs.readdirSync(sourceDir)) {
+      copyEntry(path.join(sourceDir, item), path.join(destDir, item));
+    }
+
+    // Cleanup temp directory
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    return checksum;
+  } catch (error) {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    throw error;
+  }
+};
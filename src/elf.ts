@@ -0,0 +1,266 @@
+/**
+ * Minimal ar archive, ELF and COFF header reader, to check which architecture
+ * the objects in a static library were built for.
+ *
+ * Supports GNU (System V), BSD and MSVC (.lib) archives, including long member
+ * names and symbol tables. Only member headers and the first bytes of each
+ * member are read, so multi-hundred-MB archives are cheap to inspect.
+ */
+
+import fs from "fs";
+import { DesktopCpu } from "./registry.js";
+
+const AR_MAGIC = "!<arch>\n";
+const THIN_AR_MAGIC = "!<thin>\n";
+const AR_HEADER_SIZE = 60;
+const ELF_HEADER_SIZE = 20;
+
+// e_machine values from the ELF specification
+const EM_386 = 3;
+const EM_ARM = 40;
+const EM_X86_64 = 62;
+const EM_AARCH64 = 183;
+
+const MACHINE_NAMES: Record<number, string> = {
+  [EM_386]: "x86",
+  [EM_ARM]: "ARM",
+  [EM_X86_64]: "x86-64",
+  [EM_AARCH64]: "AArch64",
+};
+
+// IMAGE_FILE_MACHINE values from the PE/COFF specification
+const IMAGE_FILE_MACHINE_I386 = 0x14c;
+const IMAGE_FILE_MACHINE_AMD64 = 0x8664;
+const IMAGE_FILE_MACHINE_ARM64 = 0xaa64;
+
+const COFF_MACHINE_NAMES: Record<number, string> = {
+  [IMAGE_FILE_MACHINE_I386]: "x86",
+  [IMAGE_FILE_MACHINE_AMD64]: "x64",
+  [IMAGE_FILE_MACHINE_ARM64]: "ARM64",
+};
+
+// Machine and ELF class of the objects expected in each Android ABI directory
+export const ANDROID_ABI_MACHINES: Record<string, { machine: number; bits: 32 | 64 }> = {
+  "armeabi-v7a": { machine: EM_ARM, bits: 32 },
+  "arm64-v8a": { machine: EM_AARCH64, bits: 64 },
+  x86: { machine: EM_386, bits: 32 },
+  x86_64: { machine: EM_X86_64, bits: 64 },
+};
+
+// Machine and ELF class of the objects in Linux packages
+export const LINUX_CPU_MACHINES: Record<DesktopCpu, { machine: number; bits: 32 | 64 }> = {
+  x64: { machine: EM_X86_64, bits: 64 },
+  arm64: { machine: EM_AARCH64, bits: 64 },
+};
+
+// COFF machine of the objects in Windows packages
+export const WINDOWS_CPU_MACHINES: Record<DesktopCpu, number> = {
+  x64: IMAGE_FILE_MACHINE_AMD64,
+  arm64: IMAGE_FILE_MACHINE_ARM64,
+};
+
+export interface ElfHeader {
+  bits: 32 | 64;
+  machine: number;
+}
+
+export interface ArchiveMember {
+  name: string;
+  size: number;
+  // null when the member isn't an ELF object (e.g. LLVM bitcode)
+  elf: ElfHeader | null;
+  // IMAGE_FILE_MACHINE of a COFF object or import member; null when it isn't one
+  coffMachine: number | null;
+}
+
+export const describeMachine = (machine: number): string =>
+  MACHINE_NAMES[machine] ?? `e_machine ${machine}`;
+
+export const describeCoffMachine = (machine: number): string =>
+  COFF_MACHINE_NAMES[machine] ?? `machine 0x${machine.toString(16)}`;
+
+const readAt = (fd: number, position: number, length: number): Buffer => {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = fs.readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+};
+
+const parseElfHeader = (bytes: Buffer): ElfHeader | null => {
+  if (bytes.length < ELF_HEADER_SIZE || bytes.toString("latin1", 0, 4) !== "\x7fELF") {
+    return null;
+  }
+  const bits = bytes[4] === 2 ? 64 : 32;
+  const littleEndian = bytes[5] !== 2;
+  const machine = littleEndian ? bytes.readUInt16LE(18) : bytes.readUInt16BE(18);
+  return { bits, machine };
+};
+
+const parseCoffMachine = (bytes: Buffer): number | null => {
+  if (bytes.length < 8) {
+    return null;
+  }
+  // Import and anonymous (LTCG) objects: Sig1 = 0, Sig2 = 0xFFFF, then Version and Machine
+  if (bytes.readUInt16LE(0) === 0 && bytes.readUInt16LE(2) === 0xffff) {
+    return bytes.readUInt16LE(6);
+  }
+  const machine = bytes.readUInt16LE(0);
+  return COFF_MACHINE_NAMES[machine] ? machine : null;
+};
+
+// Symbol tables and the GNU long name table aren't object files
+const isSpecialMember = (name: string): boolean =>
+  name === "/" || name === "//" || name === "/SYM64/" || name.startsWith("__.SYMDEF");
+
+/**
+ * List the object members of an ar archive with their ELF headers.
+ */
+export const readArchiveMembers = (archivePath: string): ArchiveMember[] => {
+  const fd = fs.openSync(archivePath, "r");
+  try {
+    const fileSize = fs.fstatSync(fd).size;
+    const magic = readAt(fd, 0, AR_MAGIC.length).toString("latin1");
+    if (magic === THIN_AR_MAGIC) {
+      throw new Error("thin archives reference objects outside the file and are not supported");
+    }
+    if (magic !== AR_MAGIC) {
+      throw new Error("not an ar archive");
+    }
+
+    const members: ArchiveMember[] = [];
+    let longNames: Buffer | null = null;
+    let offset = AR_MAGIC.length;
+
+    while (offset + AR_HEADER_SIZE <= fileSize) {
+      const header = readAt(fd, offset, AR_HEADER_SIZE);
+      if (header.toString("latin1", 58, 60) !== "`\n") {
+        throw new Error(`corrupt member header at offset ${offset}`);
+      }
+      let name = header.toString("latin1", 0, 16).trimEnd();
+      // Checked on the raw name: "/SYM64/" and "//" lose their meaning once the slash is stripped
+      const special = isSpecialMember(name);
+      let size = parseInt(header.toString("latin1", 48, 58).trim(), 10);
+      let dataOffset = offset + AR_HEADER_SIZE;
+      const nextOffset = dataOffset + size + (size % 2);
+
+      if (name.startsWith("#1/")) {
+        // BSD: the name is stored at the start of the member data
+        const nameLength = parseInt(name.slice(3), 10);
+        name = readAt(fd, dataOffset, nameLength).toString("utf8").replace(/\0+$/, "");
+        dataOffset += nameLength;
+        size -= nameLength;
+      } else if (name === "//") {
+        longNames = readAt(fd, dataOffset, size);
+      } else if (/^\/\d+$/.test(name) && longNames) {
+        // GNU: offset into the long name table, terminated by "/\n" (MSVC: by a NUL)
+        const start = parseInt(name.slice(1), 10);
+        const ends = [longNames.indexOf("/\n", start), longNames.indexOf(0, start)].filter((i) => i !== -1);
+        name = longNames.toString("utf8", start, ends.length > 0 ? Math.min(...ends) : undefined);
+      } else if (!special && name.endsWith("/")) {
+        name = name.slice(0, -1);
+      }
+
+      if (!special && !isSpecialMember(name)) {
+        const bytes = readAt(fd, dataOffset, Math.min(size, ELF_HEADER_SIZE));
+        members.push({ name, size, elf: parseElfHeader(bytes), coffMachine: parseCoffMachine(bytes) });
+      }
+      offset = nextOffset;
+    }
+
+    return members;
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+/**
+ * Check that every member of a static library is an ELF object of the given
+ * machine and class; label names the target in messages.
+ */
+const checkElfArchive = (
+  archivePath: string,
+  expected: { machine: number; bits: 32 | 64 },
+  label: string
+): string[] => {
+  let members: ArchiveMember[];
+  try {
+    members = readArchiveMembers(archivePath);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+  if (members.length === 0) {
+    return ["empty archive (no object files)"];
+  }
+
+  const problems: string[] = [];
+  const notElf = members.filter((member) => !member.elf);
+  if (notElf.length > 0) {
+    problems.push(`${notElf.length} member(s) are not ELF objects, e.g. ${notElf[0].name}`);
+  }
+
+  const mismatched = members.filter(
+    (member) =>
+      member.elf && (member.elf.machine !== expected.machine || member.elf.bits !== expected.bits)
+  );
+  if (mismatched.length > 0) {
+    const found = mismatched[0].elf!;
+    problems.push(
+      `${mismatched.length} of ${members.length} object(s) are ${describeMachine(found.machine)} ` +
+        `(${found.bits}-bit), expected ${describeMachine(expected.machine)} (${expected.bits}-bit) ` +
+        `for ${label}, e.g. ${mismatched[0].name}`
+    );
+  }
+
+  return problems;
+};
+
+/**
+ * Check that a static library holds objects for the given Android ABI.
+ * Returns a list of problems; empty when the archive is fine.
+ */
+export const checkAndroidArchive = (archivePath: string, abi: string): string[] => {
+  const expected = ANDROID_ABI_MACHINES[abi];
+  if (!expected) {
+    return [`unknown Android ABI "${abi}"`];
+  }
+  return checkElfArchive(archivePath, expected, abi);
+};
+
+/**
+ * Check that a static library of a Linux package holds objects for its CPU.
+ */
+export const checkLinuxArchive = (archivePath: string, cpu: DesktopCpu): string[] =>
+  checkElfArchive(archivePath, LINUX_CPU_MACHINES[cpu], `linux-${cpu}`);
+
+/**
+ * Check that a .lib of a Windows package holds COFF objects for its CPU.
+ */
+export const checkWindowsArchive = (archivePath: string, cpu: DesktopCpu): string[] => {
+  let members: ArchiveMember[];
+  try {
+    members = readArchiveMembers(archivePath);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+  if (members.length === 0) {
+    return ["empty archive (no object files)"];
+  }
+
+  const problems: string[] = [];
+  const notCoff = members.filter((member) => member.coffMachine === null);
+  if (notCoff.length > 0) {
+    problems.push(`${notCoff.length} member(s) are not COFF objects, e.g. ${notCoff[0].name}`);
+  }
+
+  const expected = WINDOWS_CPU_MACHINES[cpu];
+  const mismatched = members.filter(
+    (member) => member.coffMachine !== null && member.coffMachine !== expected
+  );
+  if (mismatched.length > 0) {
+    problems.push(
+      `${mismatched.length} of ${members.length} object(s) are ${describeCoffMachine(mismatched[0].coffMachine!)}, ` +
+        `expected ${describeCoffMachine(expected)} for windows-${cpu}, e.g. ${mismatched[0].name}`
+    );
+  }
+
+  return problems;
+};
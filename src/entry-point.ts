@@ -0,0 +1,166 @@
+/**
+ * Entry point (index.js + index.d.ts) of a generated package, so build scripts
+ * can locate the binaries instead of guessing paths under node_modules:
+ *
+ *   const skia = require("react-native-skia-android");
+ *   skia.abis["arm64-v8a"]; // absolute paths of the arm64-v8a libraries
+ *
+ *   const { resolveSkiaBinaries } = require("react-native-skia-android");
+ *   resolveSkiaBinaries({ platform: "apple-ios", backend: "graphite" }).xcframeworks;
+ *   resolveSkiaBinaries({ platform: "linux-x64" }).libraries;
+ *
+ * The library lists are taken from libs/ after pruning; paths are resolved at
+ * runtime relative to the installed package.
+ */
+
+import { AbiLibraries } from "./cmake.js";
+import { Backend, PackageConfig, getBackends, getPackageName, getPackages } from "./registry.js";
+
+export interface EntryPoint {
+  js: string;
+  dts: string;
+}
+
+const json = (value: unknown): string => JSON.stringify(value, null, 2);
+
+/**
+ * npm package name of every registry package, by backend and package name,
+ * for the backends registered when the package is generated.
+ */
+const getPackageNames = (): Record<Backend, Record<string, string>> =>
+  Object.fromEntries(
+    getBackends().map((backend) => [
+      backend,
+      Object.fromEntries(getPackages(backend).map((p) => [p.name, getPackageName(p, backend)])),
+    ])
+  ) as Record<Backend, Record<string, string>>;
+
+export const generateEntryPoint = (
+  pkg: PackageConfig,
+  backend: Backend,
+  skiaVersion: string,
+  npmVersion: string,
+  abis: AbiLibraries[],
+  xcframeworks: string[],
+  libraries: string[] = []
+): EntryPoint => {
+  const packageNames = getPackageNames();
+  const abiFiles = Object.fromEntries(
+    abis.map(({ arch, libraries }) => [arch, libraries.map((library) => `lib${library}.a`)])
+  );
+  const platforms = [...new Set(getBackends().flatMap((b) => Object.keys(packageNames[b])))];
+
+  const js = `"use strict";
+// Generated by react-native-skia-binaries
+
+const path = require("path");
+
+const PACKAGE_NAMES = ${json(packageNames)};
+
+const ABI_FILES = ${json(abiFiles)};
+
+const XCFRAMEWORKS = ${json(xcframeworks)};
+
+const LIBRARY_FILES = ${json(libraries)};
+
+const libsDir = path.join(__dirname, "libs");
+
+const abis = {};
+for (const [abi, files] of Object.entries(ABI_FILES)) {
+  abis[abi] = files.map((file) => path.join(libsDir, abi, file));
+}
+
+const xcframeworks = {};
+for (const name of XCFRAMEWORKS) {
+  xcframeworks[name] = path.join(libsDir, name);
+}
+
+const libraries = LIBRARY_FILES.map((file) => path.join(libsDir, file));
+
+/**
+ * Load the package with the binaries for a platform and backend, resolved
+ * from this package or the current directory.
+ */
+const resolveSkiaBinaries = ({ platform, backend = "ganesh" }) => {
+  const names = PACKAGE_NAMES[backend];
+  if (!names) {
+    throw new Error(\`Unknown Skia backend "\${backend}" (expected \${Object.keys(PACKAGE_NAMES).join(", ")})\`);
+  }
+  const name = names[platform];
+  if (!name) {
+    throw new Error(
+      \`No \${backend} package for platform "\${platform}" (available: \${Object.keys(names).join(", ")})\`
+    );
+  }
+  let resolved;
+  try {
+    resolved = require.resolve(name, { paths: [__dirname, process.cwd()] });
+  } catch {
+    throw new Error(\`Cannot find \${name}. Install it with: npm install \${name}\`);
+  }
+  return require(resolved);
+};
+
+module.exports = {
+  name: ${json(getPackageName(pkg, backend))},
+  version: ${json(npmVersion)},
+  skiaVersion: ${json(skiaVersion)},
+  backend: ${json(backend)},
+  platform: ${json(pkg.platform)},
+  libsDir,
+  abis,
+  xcframeworks,
+  libraries,
+  resolveSkiaBinaries,
+};
+`;
+
+  const dts = `// Generated by react-native-skia-binaries
+
+export type SkiaBackend = ${getBackends().map((b) => json(b)).join(" | ")};
+
+/** A binary package, by its name without the backend prefix. */
+export type SkiaPlatform = ${platforms.map((p) => json(p)).join(" | ")};
+
+export interface SkiaBinaries {
+  /** npm package name */
+  name: string;
+  /** npm package version */
+  version: string;
+  /** Skia milestone the binaries were built from, e.g. "m147a" */
+  skiaVersion: string;
+  backend: SkiaBackend;
+  platform: "android" | "apple" | "linux" | "windows" | "common";
+  /** Absolute path of the package's libs/ directory */
+  libsDir: string;
+  /** Android: absolute paths of the static libraries, by ABI */
+  abis: Record<string, string[]>;
+  /** Apple: absolute paths of the xcframeworks, by name (e.g. "libskia.xcframework") */
+  xcframeworks: Record<string, string>;
+  /** Linux and Windows: absolute paths of the static libraries */
+  libraries: string[];
+  resolveSkiaBinaries: typeof resolveSkiaBinaries;
+}
+
+export declare const name: ${json(getPackageName(pkg, backend))};
+export declare const version: ${json(npmVersion)};
+export declare const skiaVersion: ${json(skiaVersion)};
+export declare const backend: ${json(backend)};
+export declare const platform: ${json(pkg.platform)};
+export declare const libsDir: string;
+export declare const abis: Record<string, string[]>;
+export declare const xcframeworks: Record<string, string>;
+export declare const libraries: string[];
+
+/**
+ * Load the package with the binaries for a platform and backend (default: ganesh).
+ * Throws if that package isn't installed.
+ */
+export declare function resolveSkiaBinaries(options: {
+  platform: SkiaPlatform;
+  backend?: SkiaBackend;
+}): SkiaBinaries;
+`;
+
+  return { js, dts };
+};
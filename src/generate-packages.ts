@@ -7,502 +7,238 @@
  *   npx tsx src/generate-packages.ts --config=skia-config.json --patch=1
  *   npx tsx src/generate-packages.ts --skia-version=m144c
  *   npx tsx src/generate-packages.ts --skia-version=m144c --package=android
- *   npx tsx src/generate-packages.ts --skia-version=m142b --graphite
+ *   npx tsx src/generate-packages.ts --skia-version=m142b --backend=graphite
  *
  * Options:
- *   --config        Config file path (generates all packages for both backends)
- *   --variant       Which packages to generate: all, ganesh, or graphite (default: all)
- *   --patch         Patch version number (default: 0). e.g., m147a + --patch=1 → 147.1.1
+ *   --config        Config file path (generates all packages of every backend in it)
+ *   --variant       Which packages to generate: all, or one backend (default: all)
+ *   --patch         Patch version number (default: the config's "patch", or 0).
+ *                   e.g., m147a + --patch=1 → 147.1.1
  *   --skia-version  Skia milestone version (e.g., m144c)
  *   --npm-version   NPM package version (optional, derived from skia-version)
  *                   m144 → 144.0.0, m144a → 144.1.0, m144b → 144.2.0, m144c → 144.3.0
  *   --package       Generate only a specific package (optional, generates all if omitted)
- *   --graphite      Generate Graphite packages instead of Ganesh
+ *   --backend       Backend to generate: ganesh, graphite, or one defined in skia-config.json,
+ *                   by name or config key (default: ganesh; with --config, same as --variant)
+ *   --graphite      Same as --backend=graphite
  *   --output-dir    Output directory (default: ./dist)
+ *   --source        Read assets from a local directory instead of GitHub
+ *                   (file:///path/to/assets, holding <release-tag>/<asset> or <asset>)
+ *   --mirror        Download assets from a mirror laid out as <mirror>/<release-tag>/<asset>
+ *   --repo          GitHub repository to download releases from (default: shopify/react-native-skia)
+ *   --concurrency   Number of artifacts downloaded in parallel (default: 4)
+ *   --cache-dir     Cache directory for downloaded archives
+ *                   (default: $XDG_CACHE_HOME or ~/.cache, /react-native-skia-binaries)
+ *   --no-cache      Always download, without reading or writing the cache
+ *   --keep-all      Keep every library from the release archives instead of pruning
+ *                   to the backend's library manifest (see registry.ts; a backend's
+ *                   "prune" in the config sets the default)
+ *   --strip         Strip debug symbols from Android libraries of every backend
+ *                   (by default only Graphite Android libraries, or per the backend's "strip")
+ *   --no-strip      Never strip debug symbols
+ *   --prefab        Also lay out Android libraries as prefab modules for Gradle
+ *                   (copies every library into prefab/, doubling the package size)
+ *   --strip-tool    llvm-strip to use (default: llvm-strip or llvm-strip-NN on PATH,
+ *                   then the Android NDK from ANDROID_NDK_HOME or ANDROID_HOME)
+ *   --previous-size-report
+ *                   size-report.json of an earlier run, to enforce maxGrowthPercent budgets
+ *                   and show size changes
+ *   --allow-checksum-mismatch
+ *                   Report checksum mismatches against the config but keep generating
+ *                   (use when deliberately bumping binaries before updating the config)
+ *
+ * Optional packages (Linux and Windows) are skipped, not failed, when the release
+ * doesn't provide their assets.
+ *
+ * The generated package directories are listed in <output-dir>/generated-packages.json,
+ * which publish-packages reads. Their sizes are written to size-report.json and
+ * size-report.md, and checked against the sizeBudgets of the config.
  */
 
 import fs from "fs";
-import https from "https";
 import path from "path";
-import os from "os";
-import { spawn } from "child_process";
 import { fileURLToPath } from "url";
+import { resolveCacheDir } from "./artifact-cache.js";
+import { AssetSource, describeAssetSource, resolveAssetSource } from "./asset-source.js";
+import {
+  compareChecksum,
+  printChecksumReport,
+  ChecksumResult,
+} from "./checksums.js";
+import { CMAKE_CONFIG_FILE, listAndroidLibraries, writeCmakeConfig } from "./cmake.js";
+import { getBackendArg, getBackendConfig, loadBackends, loadConfig, selectPackages } from "./config.js";
+import { downloadAndExtractAsset, isAssetNotFound, isChecksumMismatch } from "./download.js";
+import { generateEntryPoint } from "./entry-point.js";
+import { writeGeneratedManifest } from "./manifest.js";
+import { generatePodspec, listVendoredXcframeworks } from "./podspec.js";
+import { PREFAB_DIR, writePrefabLayout } from "./prefab.js";
+import {
+  Backend,
+  PackageConfig,
+  getBackendLabel,
+  getBackends,
+  getMarkerFile,
+  getPackageArtifacts,
+  getPackageFiles,
+  getPackageName,
+  getPackages,
+  getPodspecName,
+  getReleaseTag,
+  getLibraryManifest,
+  isChecksummed,
+  isDesktopPlatform,
+  isGraphite,
+  isKeptByManifest,
+  isPrunedByDefault,
+  isStrippedByDefault,
+  resolveBackend,
+} from "./registry.js";
+import {
+  createLimiter,
+  createTaskLog,
+  Limiter,
+  logLine,
+  resolveConcurrency,
+  settleAll,
+} from "./scheduler.js";
+import {
+  PackageSizeReport,
+  SIZE_REPORT_MARKDOWN_FILE,
+  SizeBudget,
+  SizeReport,
+  checkSizeBudget,
+  measurePackage,
+  readSizeReport,
+  resolveSizeBudget,
+  writeSizeReport,
+} from "./size-report.js";
+import { resolveStripTool, stripDebugSymbols } from "./strip.js";
+import { formatBytes, getSize, listSymlinks, parseArgs } from "./utils.js";
+import { deriveNpmVersion } from "./version.js";
+import { XcframeworkSlices, checkXcframeworkSlices, validateXcframeworks } from "./xcframework.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT_DIR = path.join(__dirname, "..");
 
-// GitHub repository for downloading binaries
-const REPO = "shopify/react-native-skia";
-
-interface AndroidArch {
-  arch: string;
-  artifact: string;
-  srcSubdir: string;
-}
-
-interface PackageConfig {
-  name: string;
-  platform: "android" | "apple" | "common";
-  description: string;
-  // For Android: list of architectures to include
-  androidArchs?: AndroidArch[];
-  // For Apple: single artifact
-  artifact?: string;
-  libSubdir?: string;
-}
-
-// Package configurations for Ganesh (standard Metal/OpenGL backend)
-const GANESH_PACKAGES: PackageConfig[] = [
-  {
-    name: "android",
-    platform: "android",
-    description: "Skia prebuilt binaries for Android (all architectures)",
-    androidArchs: [
-      { arch: "armeabi-v7a", artifact: "skia-android-arm", srcSubdir: "armeabi-v7a" },
-      { arch: "arm64-v8a", artifact: "skia-android-arm-64", srcSubdir: "arm64-v8a" },
-      { arch: "x86", artifact: "skia-android-arm-x86", srcSubdir: "x86" },
-      { arch: "x86_64", artifact: "skia-android-arm-x64", srcSubdir: "x86_64" },
-    ],
-  },
-  {
-    name: "apple-ios",
-    platform: "apple",
-    description: "Skia prebuilt binaries for iOS (device + simulator)",
-    artifact: "skia-apple-ios-xcframeworks",
-    libSubdir: "ios",
-  },
-  {
-    name: "apple-tvos",
-    platform: "apple",
-    description: "Skia prebuilt binaries for tvOS (device + simulator)",
-    artifact: "skia-apple-tvos-xcframeworks",
-    libSubdir: "tvos",
-  },
-  {
-    name: "apple-macos",
-    platform: "apple",
-    description: "Skia prebuilt binaries for macOS (arm64 + x64)",
-    artifact: "skia-apple-macos-xcframeworks",
-    libSubdir: "macos",
-  },
-];
-
-// Package configurations for Graphite (Dawn/WebGPU backend)
-const GRAPHITE_PACKAGES: PackageConfig[] = [
-  {
-    name: "android",
-    platform: "android",
-    description: "Skia Graphite prebuilt binaries for Android (all architectures)",
-    androidArchs: [
-      { arch: "armeabi-v7a", artifact: "skia-graphite-android-arm", srcSubdir: "arm" },
-      { arch: "arm64-v8a", artifact: "skia-graphite-android-arm-64", srcSubdir: "arm64" },
-      { arch: "x86", artifact: "skia-graphite-android-arm-x86", srcSubdir: "x86" },
-      { arch: "x86_64", artifact: "skia-graphite-android-arm-x64", srcSubdir: "x64" },
-    ],
-  },
-  {
-    name: "apple-ios",
-    platform: "apple",
-    description: "Skia Graphite prebuilt binaries for iOS (device + simulator)",
-    artifact: "skia-graphite-apple-ios-xcframeworks",
-    libSubdir: "ios",
-  },
-  {
-    name: "apple-macos",
-    platform: "apple",
-    description: "Skia Graphite prebuilt binaries for macOS (arm64 + x64)",
-    artifact: "skia-graphite-apple-macos-xcframeworks",
-    libSubdir: "macos",
-  },
-  {
-    name: "headers",
-    platform: "common",
-    description: "Skia Graphite headers for Dawn/WebGPU",
-    artifact: "skia-graphite-headers",
-    libSubdir: "headers",
-  },
-];
-
-interface Args {
-  [key: string]: string | boolean;
-}
-
-const parseArgs = (): Args => {
-  const args: Args = {};
-  for (const arg of process.argv.slice(2)) {
-    if (arg.startsWith("--")) {
-      const [key, value] = arg.slice(2).split("=");
-      args[key] = value ?? true;
-    }
-  }
-  return args;
-};
-
 /**
- * Derives npm version from Skia version.
- * m144 → 144.0.0
- * m144a → 144.1.0
- * m144b → 144.2.0
- * m144c → 144.3.0
- *
- * With patch version:
- * m147a + patch=1 → 147.1.1
+ * Remove everything the backend's library manifest doesn't keep. Android
+ * packages are pruned per ABI directory, Apple packages at the libs/ root.
  */
-const deriveNpmVersion = (skiaVersion: string, patch = 0): string => {
-  const match = skiaVersion.match(/^m(\d+)([a-z])?$/);
-  if (!match) {
-    throw new Error(
-      `Invalid skia version format: ${skiaVersion}. Expected format: m144 or m144a`
-    );
-  }
-
-  const major = match[1];
-  const suffix = match[2];
-
-  // Convert suffix letter to minor version: a=1, b=2, c=3, etc.
-  const minor = suffix ? suffix.charCodeAt(0) - "a".charCodeAt(0) + 1 : 0;
-
-  return `${major}.${minor}.${patch}`;
-};
-
-// --- Download utilities ---
-
-const sleep = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
-
-const runCommand = (
-  command: string,
-  args: string[],
-  options: object = {}
-): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const child = spawn(command, args, {
-      stdio: ["ignore", "inherit", "inherit"],
-      ...options,
-    });
-    child.on("error", reject);
-    child.on("close", (code) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`Command ${command} exited with code ${code}`));
-      }
-    });
-  });
-};
-
-interface DownloadError extends Error {
-  statusCode?: number;
-  code?: string;
-}
-
-const downloadToFile = (
-  url: string,
-  destPath: string,
-  maxRetries = 5
-): Promise<void> => {
-  fs.mkdirSync(path.dirname(destPath), { recursive: true });
-
-  const attemptDownload = (): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      const request = (currentUrl: string): void => {
-        https
-          .get(currentUrl, { headers: { "User-Agent": "node" } }, (res) => {
-            if (
-              res.statusCode &&
-              [301, 302, 303, 307, 308].includes(res.statusCode)
-            ) {
-              const { location } = res.headers;
-              if (location) {
-                res.resume();
-                request(location);
-              } else {
-                reject(new Error(`Redirect without location for ${currentUrl}`));
-              }
-              return;
-            }
-
-            if (res.statusCode !== 200) {
-              const error: DownloadError = new Error(
-                `Failed to download: ${res.statusCode} ${res.statusMessage}`
-              );
-              error.statusCode = res.statusCode;
-              res.resume();
-              reject(error);
-              return;
-            }
-
-            const fileStream = fs.createWriteStream(destPath);
-            res.pipe(fileStream);
-
-            fileStream.on("finish", () => {
-              fileStream.close((err) => {
-                if (err) {
-                  fileStream.destroy();
-                  fs.unlink(destPath, () => reject(err));
-                } else {
-                  resolve();
-                }
-              });
-            });
-
-            const cleanup = (error: Error): void => {
-              fileStream.destroy();
-              fs.unlink(destPath, () => reject(error));
-            };
-
-            res.on("error", cleanup);
-            fileStream.on("error", cleanup);
-          })
-          .on("error", reject);
-      };
-
-      request(url);
-    });
-  };
-
-  const downloadWithRetry = async (retryCount = 0): Promise<void> => {
-    try {
-      await attemptDownload();
-    } catch (error) {
-      const downloadError = error as DownloadError;
-      const isRateLimit =
-        downloadError.statusCode === 403 ||
-        downloadError.message.includes("rate limit");
-      const shouldRetry =
-        retryCount < maxRetries &&
-        (isRateLimit ||
-          downloadError.code === "ECONNRESET" ||
-          downloadError.code === "ETIMEDOUT");
-
-      if (shouldRetry) {
-        const delay = Math.pow(2, retryCount) * 1000;
-        console.log(
-          `      Retry ${retryCount + 1}/${maxRetries} in ${delay / 1000}s...`
-        );
-        await sleep(delay);
-        return downloadWithRetry(retryCount + 1);
-      } else {
-        throw error;
-      }
-    }
-  };
-
-  return downloadWithRetry();
-};
-
-const extractTarGz = async (archivePath: string, destDir: string): Promise<void> => {
-  fs.mkdirSync(destDir, { recursive: true });
-
-  const args = ["-xzf", archivePath, "-C", destDir];
-  const candidates =
-    process.platform === "win32"
-      ? [
-          "tar.exe",
-          path.join(
-            process.env.SystemRoot ?? "C:\\Windows",
-            "System32",
-            "tar.exe"
-          ),
-        ]
-      : ["tar"];
-
-  let lastError: Error | undefined;
-  for (const candidate of candidates) {
-    try {
-      await runCommand(candidate, args);
-      return;
-    } catch (err) {
-      const error = err as NodeJS.ErrnoException;
-      if (error.code === "ENOENT") {
-        lastError = new Error(`Command ${candidate} not found`);
-        continue;
-      }
-      lastError = error;
-    }
-  }
-
-  throw new Error(`Failed to extract: ${lastError?.message ?? "unknown error"}`);
-};
-
-const copyDir = (src: string, dest: string): void => {
-  fs.mkdirSync(dest, { recursive: true });
-  const entries = fs.readdirSync(src, { withFileTypes: true });
-
-  for (const entry of entries) {
-    const srcPath = path.join(src, entry.name);
-    const destPath = path.join(dest, entry.name);
-
-    const stat = fs.lstatSync(srcPath);
-    if (
-      stat.isSocket() ||
-      stat.isFIFO() ||
-      stat.isCharacterDevice() ||
-      stat.isBlockDevice()
-    ) {
-      continue;
-    }
-
-    if (entry.isDirectory()) {
-      copyDir(srcPath, destPath);
-    } else {
-      fs.copyFileSync(srcPath, destPath);
-    }
-  }
-};
-
-const downloadAndExtractAsset = async (
-  artifact: string,
-  releaseTag: string,
-  destDir: string,
-  srcSubdir?: string
-): Promise<void> => {
-  const assetName = `${artifact}-${releaseTag}.tar.gz`;
-  const downloadUrl = `https://github.com/${REPO}/releases/download/${releaseTag}/${assetName}`;
-
-  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "skia-download-"));
-  const archivePath = path.join(tempDir, assetName);
-  const extractDir = path.join(tempDir, "extracted");
-
-  try {
-    console.log(`      Downloading ${assetName}...`);
-    await downloadToFile(downloadUrl, archivePath);
-
-    console.log(`      Extracting...`);
-    await extractTarGz(archivePath, extractDir);
-
-    // Find the extracted content
-    const extractedContents = fs.readdirSync(extractDir);
-
-    if (extractedContents.length === 0) {
-      throw new Error("Archive extracted but no contents found");
-    }
-
-    // Navigate to source directory
-    let sourceDir = extractDir;
-
-    // If there's a single top-level directory, descend into it
-    if (
-      extractedContents.length === 1 &&
-      fs.statSync(path.join(extractDir, extractedContents[0])).isDirectory()
-    ) {
-      sourceDir = path.join(extractDir, extractedContents[0]);
-
-      // Check if there's a subdir matching srcSubdir
-      if (
-        srcSubdir &&
-        fs.existsSync(path.join(sourceDir, srcSubdir)) &&
-        fs.statSync(path.join(sourceDir, srcSubdir)).isDirectory()
-      ) {
-        sourceDir = path.join(sourceDir, srcSubdir);
-      }
-    }
-
-    // Copy contents to destination
-    fs.mkdirSync(destDir, { recursive: true });
-    const items = fs.readdirSync(sourceDir);
-    for (const item of items) {
-      const srcPath = path.join(sourceDir, item);
-      const destPath = path.join(destDir, item);
-
-      if (fs.statSync(srcPath).isDirectory()) {
-        copyDir(srcPath, destPath);
-      } else {
-        fs.copyFileSync(srcPath, destPath);
-      }
-    }
-
-    // Cleanup temp directory
-    fs.rmSync(tempDir, { recursive: true, force: true });
-  } catch (error) {
-    fs.rmSync(tempDir, { recursive: true, force: true });
-    throw error;
-  }
-};
-
-// Required .a files for Android based on CMakeLists.txt
-const ANDROID_REQUIRED_LIBS = new Set([
-  "libskia.a",
-  "libsvg.a",
-  "libskshaper.a",
-  "libskottie.a",
-  "libsksg.a",
-  "libskparagraph.a",
-  "libskunicode_core.a",
-  "libskunicode_icu.a",
-  "libpathops.a",
-  "libjsonreader.a",
-  "libdawn_combined.a", // Required for Graphite (Dawn/WebGPU backend)
-]);
-
-const cleanupAndroidLibs = (libsDir: string): void => {
-  const entries = fs.readdirSync(libsDir, { withFileTypes: true });
-  for (const entry of entries) {
-    if (!entry.isDirectory()) continue;
-    const archDir = path.join(libsDir, entry.name);
-    const files = fs.readdirSync(archDir);
+const pruneLibs = (
+  libsDir: string,
+  pkg: PackageConfig,
+  backend: Backend,
+  log: (message: string) => void
+): void => {
+  const manifest = getLibraryManifest(pkg, backend);
+  if (!manifest) return;
+
+  const targets =
+    pkg.platform === "android"
+      ? (pkg.androidArchs ?? []).map(({ arch }) => ({ label: arch, dir: path.join(libsDir, arch) }))
+      : [{ label: "libs", dir: libsDir }];
+
+  let totalBytes = 0;
+  for (const { label, dir } of targets) {
+    if (!fs.existsSync(dir)) continue;
     let removed = 0;
-    for (const file of files) {
-      if (!ANDROID_REQUIRED_LIBS.has(file)) {
-        fs.rmSync(path.join(archDir, file), { recursive: true, force: true });
-        removed++;
-      }
+    let removedBytes = 0;
+    for (const name of fs.readdirSync(dir)) {
+      if (isKeptByManifest(manifest, name)) continue;
+      const entryPath = path.join(dir, name);
+      removedBytes += getSize(entryPath);
+      fs.rmSync(entryPath, { recursive: true, force: true });
+      removed++;
     }
     if (removed > 0) {
-      console.log(`    Cleaned ${entry.name}: removed ${removed} unnecessary file(s)`);
+      log(`    Pruned ${label}: removed ${removed} file(s), ${formatBytes(removedBytes)}`);
     }
+    totalBytes += removedBytes;
+  }
+  if (totalBytes > 0) {
+    log(`    Pruned ${formatBytes(totalBytes)} in total`);
   }
 };
 
-const findNdkStripTool = (): string | null => {
-  const ndkPaths: string[] = [];
+// --- Checksum verification ---
 
-  if (process.env.ANDROID_NDK_HOME) {
-    ndkPaths.push(process.env.ANDROID_NDK_HOME);
-  }
+interface GenerateOptions {
+  // Expected checksums from the config file; verification is skipped when omitted
+  checksums?: Record<string, string>;
+  allowChecksumMismatch?: boolean;
+  // Directory for cached release archives; caching is disabled when omitted
+  cacheDir?: string;
+  // Where release assets come from (default: GitHub releases)
+  source?: AssetSource;
+  // Bounds how many artifacts are downloaded at once (default: unbounded)
+  limit?: Limiter;
+  // Hold a package's output until it is done, for readable parallel runs
+  bufferOutput?: boolean;
+  // Skip pruning libraries that aren't in the backend's library manifest
+  // (default: the backend's default)
+  keepAll?: boolean;
+  // Strip debug symbols from Android libraries (default: the backend's default)
+  strip?: boolean;
+  // Explicit strip tool; otherwise resolved from PATH or the NDK
+  stripTool?: string;
+  // Size budgets from the config file, keyed by package name or "*"
+  sizeBudgets?: Record<string, SizeBudget>;
+  // Report of an earlier run, for the growth budget and the size comparison
+  previousSizeReport?: SizeReport;
+  // Also write a prefab layout in Android packages
+  prefab?: boolean;
+  // dist-tag written to publishConfig.tag
+  npmTag?: string;
+}
 
-  const androidHome = process.env.ANDROID_HOME;
-  if (androidHome) {
-    const ndkDir = path.join(androidHome, "ndk");
-    if (fs.existsSync(ndkDir)) {
-      const versions = fs.readdirSync(ndkDir).sort().reverse();
-      for (const version of versions) {
-        ndkPaths.push(path.join(ndkDir, version));
-      }
-    }
-  }
+interface GeneratedPackage {
+  dir: string;
+  size: PackageSizeReport;
+}
 
-  for (const ndkPath of ndkPaths) {
-    const prebuiltDir = path.join(ndkPath, "toolchains", "llvm", "prebuilt");
-    if (!fs.existsSync(prebuiltDir)) continue;
-    const platforms = fs.readdirSync(prebuiltDir);
-    for (const platform of platforms) {
-      const stripPath = path.join(prebuiltDir, platform, "bin", "llvm-strip");
-      if (fs.existsSync(stripPath)) return stripPath;
-    }
-  }
+/**
+ * Static libraries directly in libs/ of a Linux (.a) or Windows (.lib) package.
+ */
+const listDesktopLibraries = (libsDir: string): string[] =>
+  fs
+    .readdirSync(libsDir)
+    .filter((name) => name.endsWith(".a") || name.endsWith(".lib"))
+    .sort();
 
-  return null;
-};
+/**
+ * Whether an artifact must match its configured checksum before it is installed.
+ * Headers are only verified when the config pins them.
+ */
+const shouldVerifyChecksum = (
+  pkg: PackageConfig,
+  expectedChecksum: string | undefined,
+  options: GenerateOptions
+): boolean =>
+  options.checksums !== undefined &&
+  !options.allowChecksumMismatch &&
+  (isChecksummed(pkg) || expectedChecksum !== undefined);
 
-const stripDebugSymbols = async (libsDir: string): Promise<void> => {
-  const stripTool = findNdkStripTool();
-  if (!stripTool) {
-    throw new Error(
-      "Could not find llvm-strip in Android NDK. Set ANDROID_NDK_HOME or ANDROID_HOME."
-    );
-  }
-  console.log(`    Using strip tool: ${stripTool}`);
-
-  const entries = fs.readdirSync(libsDir, { withFileTypes: true });
-  for (const entry of entries) {
-    if (!entry.isDirectory()) continue;
-    const archDir = path.join(libsDir, entry.name);
-    const files = fs.readdirSync(archDir).filter((f) => f.endsWith(".a"));
-    for (const file of files) {
-      await runCommand(stripTool, ["--strip-debug", path.join(archDir, file)]);
-    }
-    console.log(`    Stripped debug symbols from ${entry.name} (${files.length} libs)`);
+/**
+ * Print the checksums of a package's artifacts against the config. Mismatches
+ * only get this far with --allow-checksum-mismatch.
+ */
+const reportArtifactChecksums = (
+  pkg: PackageConfig,
+  actualChecksums: Record<string, string | null>,
+  options: GenerateOptions,
+  log: (message: string) => void
+): void => {
+  const { checksums } = options;
+  if (!checksums) return;
+
+  const results: ChecksumResult[] = Object.entries(actualChecksums)
+    .filter(([checksumKey]) => isChecksummed(pkg) || checksums[checksumKey] !== undefined)
+    .map(([checksumKey, actual]) => compareChecksum(checksumKey, checksums[checksumKey], actual));
+  if (results.length === 0) return;
+
+  log(`    Verifying checksums...`);
+  if (!printChecksumReport(results, "      ", log)) {
+    log(`    Warning: continuing despite checksum mismatch (--allow-checksum-mismatch)`);
   }
 };
 
@@ -520,27 +256,28 @@ interface GeneratedPackageJson {
   };
   publishConfig: {
     access: string;
+    tag?: string;
   };
+  main: string;
+  types: string;
   files: string[];
   skia: {
     version: string;
     platform: string;
+    backend: Backend;
     graphite: boolean;
   };
 }
 
-const getPackageName = (pkg: PackageConfig, graphite: boolean): string => {
-  const prefix = graphite ? "skia-graphite" : "skia";
-  return `react-native-${prefix}-${pkg.name}`;
-};
-
 const generatePackageJson = (
   pkg: PackageConfig,
   skiaVersion: string,
   npmVersion: string,
-  graphite: boolean
+  backend: Backend,
+  prefab = false,
+  npmTag?: string
 ): GeneratedPackageJson => {
-  const packageName = getPackageName(pkg, graphite);
+  const packageName = getPackageName(pkg, backend);
 
   return {
     name: packageName,
@@ -554,23 +291,61 @@ const generatePackageJson = (
     },
     publishConfig: {
       access: "public",
+      ...(npmTag ? { tag: npmTag } : {}),
     },
-    files: ["libs/**"],
+    main: "index.js",
+    types: "index.d.ts",
+    files: getPackageFiles(pkg, backend, { prefab }),
     skia: {
       version: skiaVersion,
       platform: pkg.platform,
-      graphite,
+      backend,
+      graphite: isGraphite(backend),
     },
   };
 };
 
+/**
+ * README table of the xcframework slices, with how many xcframeworks ship each.
+ */
+const formatSliceTable = (slices: XcframeworkSlices[]): string => {
+  const rows = new Map<string, { platform: string; architectures: string[]; count: number }>();
+  for (const { libraries } of slices) {
+    for (const library of libraries) {
+      const row = rows.get(library.identifier) ?? {
+        platform: library.variant ? `${library.platform} (${library.variant})` : library.platform,
+        architectures: library.architectures,
+        count: 0,
+      };
+      row.count++;
+      rows.set(library.identifier, row);
+    }
+  }
+
+  return `
+## Included Slices
+
+| Slice | Platform | Architectures | XCFrameworks |
+|-------|----------|---------------|--------------|
+${[...rows.keys()]
+  .sort()
+  .map((id) => {
+    const row = rows.get(id)!;
+    return `| \`${id}\` | ${row.platform} | ${row.architectures.join(", ")} | ${row.count}/${slices.length} |`;
+  })
+  .join("\n")}
+`;
+};
+
 const generateReadme = (
   pkg: PackageConfig,
   skiaVersion: string,
   npmVersion: string,
-  graphite: boolean
+  backend: Backend,
+  slices: XcframeworkSlices[] = [],
+  libraries: string[] = []
 ): string => {
-  const packageName = getPackageName(pkg, graphite);
+  const packageName = getPackageName(pkg, backend);
 
   let architectureInfo = "";
   if (pkg.platform === "android" && pkg.androidArchs) {
@@ -580,6 +355,16 @@ const generateReadme = (
 | Architecture | Description |
 |--------------|-------------|
 ${pkg.androidArchs.map((a) => `| \`${a.arch}\` | ${a.arch} |`).join("\n")}
+`;
+  } else if (pkg.platform === "apple" && slices.length > 0) {
+    architectureInfo = formatSliceTable(slices);
+  } else if (isDesktopPlatform(pkg.platform)) {
+    architectureInfo = `
+## Included Libraries
+
+Static libraries for ${pkg.platform === "linux" ? "Linux" : "Windows"} ${pkg.cpu}:
+
+${libraries.map((library) => `- \`${library}\``).join("\n")}
 `;
   }
 
@@ -594,7 +379,7 @@ This package contains prebuilt Skia libraries from [Shopify/react-native-skia](h
 - **Skia Version**: ${skiaVersion}
 - **Package Version**: ${npmVersion}
 - **Platform**: ${pkg.platform}
-${graphite ? "- **Backend**: Graphite (Dawn/WebGPU)\n" : ""}
+${backend !== "ganesh" ? `- **Backend**: ${getBackendLabel(backend)}\n` : ""}
 ${architectureInfo}
 ## Installation
 
@@ -604,6 +389,27 @@ npm install ${packageName}
 
 The binaries are included directly in this package - no postinstall download required.
 
+## Usage
+
+\`\`\`js
+const skia = require("${packageName}");
+
+skia.skiaVersion; // "${skiaVersion}"
+skia.libsDir; // absolute path of libs/
+${
+  pkg.platform === "android"
+    ? `skia.abis["arm64-v8a"]; // absolute paths of the arm64-v8a libraries`
+    : pkg.platform === "apple"
+      ? `skia.xcframeworks["libskia.xcframework"]; // absolute path of the xcframework`
+      : isDesktopPlatform(pkg.platform)
+        ? `skia.libraries; // absolute paths of the static libraries`
+        : `// headers are under skia.libsDir`
+}
+
+// Any other installed binary package
+skia.resolveSkiaBinaries({ platform: "android", backend: "${backend}" }).abis;
+\`\`\`
+
 ## License
 
 MIT
@@ -615,9 +421,10 @@ const generatePackage = async (
   outputDir: string,
   skiaVersion: string,
   npmVersion: string,
-  graphite: boolean
-): Promise<string> => {
-  const packageName = getPackageName(pkg, graphite);
+  backend: Backend,
+  options: GenerateOptions = {}
+): Promise<GeneratedPackage | null> => {
+  const packageName = getPackageName(pkg, backend);
   const pkgDir = path.join(outputDir, packageName);
   const libsDir = path.join(pkgDir, "libs");
 
@@ -625,118 +432,313 @@ const generatePackage = async (
   fs.mkdirSync(pkgDir, { recursive: true });
   fs.mkdirSync(libsDir, { recursive: true });
 
-  const prefix = graphite ? "skia-graphite" : "skia";
-  const releaseTag = `${prefix}-${skiaVersion}`;
+  const releaseTag = getReleaseTag(backend, skiaVersion);
+  const limit = options.limit ?? (<T>(task: () => Promise<T>) => task());
+  const { log, flush } = createTaskLog(options.bufferOutput ?? false);
 
-  console.log(`  Generating: ${packageName}@${npmVersion}`);
+  try {
+    log(`  Generating: ${packageName}@${npmVersion}`);
 
-  // Download binaries
-  if (pkg.platform === "android" && pkg.androidArchs) {
-    for (const arch of pkg.androidArchs) {
-      const archDir = path.join(libsDir, arch.arch);
-      console.log(`    Downloading ${arch.arch}...`);
-      await downloadAndExtractAsset(arch.artifact, releaseTag, archDir, arch.srcSubdir);
+    // Download binaries, in parallel up to the limiter's concurrency. Each artifact
+    // is checked against the config before it is installed into libs/
+    const artifacts = getPackageArtifacts(pkg);
+    let checksums: (string | null)[];
+    try {
+      checksums = await settleAll(
+        artifacts.map((artifact) =>
+          limit(() => {
+            const expectedChecksum = options.checksums?.[artifact.checksumKey];
+            log(`    Downloading ${artifact.destSubdir || artifact.artifact}...`);
+            return downloadAndExtractAsset(
+              artifact.artifact,
+              releaseTag,
+              path.join(libsDir, artifact.destSubdir),
+              artifact.srcSubdir,
+              {
+                source: options.source,
+                cacheDir: options.cacheDir,
+                expectedChecksum,
+                verifyChecksum: shouldVerifyChecksum(pkg, expectedChecksum, options),
+                log,
+              }
+            );
+          })
+        )
+      );
+    } catch (error) {
+      // The package's other artifacts may already be installed
+      fs.rmSync(pkgDir, { recursive: true, force: true });
+      if (pkg.optional && isAssetNotFound(error)) {
+        log(`    [-] Skipped: release ${releaseTag} has no ${pkg.name} assets`);
+        return null;
+      }
+      if (isChecksumMismatch(error)) {
+        throw new Error(
+          `${(error as Error).message}. Update skia-config.json or pass --allow-checksum-mismatch.`
+        );
+      }
+      throw error;
+    }
+    const actualChecksums: Record<string, string | null> = {};
+    artifacts.forEach((artifact, i) => {
+      actualChecksums[artifact.checksumKey] = checksums[i];
+    });
+    reportArtifactChecksums(pkg, actualChecksums, options, log);
+
+    // Refuse to publish xcframeworks whose symlinked framework layout didn't survive
+    if (pkg.platform === "apple") {
+      const problems = validateXcframeworks(libsDir);
+      if (problems.length > 0) {
+        for (const problem of problems) {
+          log(`    [X] ${problem}`);
+        }
+        fs.rmSync(pkgDir, { recursive: true, force: true });
+        throw new Error(`Invalid xcframework layout in ${packageName}`);
+      }
     }
-  } else if (pkg.artifact) {
-    console.log(`    Downloading ${pkg.artifact}...`);
-    await downloadAndExtractAsset(pkg.artifact, releaseTag, libsDir, pkg.libSubdir);
-  }
 
-  // Clean up Android Graphite libs to only keep required files and create marker
-  if (graphite && pkg.platform === "android") {
-    cleanupAndroidLibs(libsDir);
-    await stripDebugSymbols(libsDir);
-    fs.writeFileSync(path.join(libsDir, "graphite.enabled"), "");
-    console.log(`    Created graphite.enabled marker file`);
-  }
+    // Only keep what the backend's library manifest lists
+    if (!(options.keepAll ?? !isPrunedByDefault(backend))) {
+      pruneLibs(libsDir, pkg, backend, log);
+    }
 
-  // Generate package.json
-  const packageJson = generatePackageJson(pkg, skiaVersion, npmVersion, graphite);
-  fs.writeFileSync(
-    path.join(pkgDir, "package.json"),
-    JSON.stringify(packageJson, null, 2) + "\n"
-  );
+    // npm pack leaves symlinks out, so the published package would lose them
+    const symlinks = listSymlinks(libsDir);
+    if (symlinks.length > 0) {
+      for (const link of symlinks) {
+        log(`    [X] libs/${link}: symlink, which npm does not publish`);
+      }
+      fs.rmSync(pkgDir, { recursive: true, force: true });
+      throw new Error(`${packageName} contains symlinks, which npm pack leaves out`);
+    }
 
-  // Generate README.md
-  const readme = generateReadme(pkg, skiaVersion, npmVersion, graphite);
-  fs.writeFileSync(path.join(pkgDir, "README.md"), readme);
+    // Every xcframework must ship the slices the platform needs
+    let slices: XcframeworkSlices[] = [];
+    if (pkg.platform === "apple") {
+      const result = checkXcframeworkSlices(libsDir, pkg.xcframeworkSlices ?? []);
+      for (const problem of result.problems) {
+        log(`    [X] ${problem}`);
+      }
+      if (result.problems.length > 0) {
+        fs.rmSync(pkgDir, { recursive: true, force: true });
+        throw new Error(`Missing xcframework slices in ${packageName}`);
+      }
+      slices = result.slices;
+      log(`    Verified slices of ${slices.length} xcframework(s)`);
+    }
 
-  console.log(`    Done!`);
-  return pkgDir;
-};
+    if (pkg.platform === "android" && (options.strip ?? isStrippedByDefault(backend))) {
+      const archDirs = (pkg.androidArchs ?? []).map(({ arch }) => path.join(libsDir, arch));
+      await stripDebugSymbols(archDirs, resolveStripTool(options.stripTool), log);
+    }
 
-interface SkiaConfig {
-  version: string;
-  checksums?: Record<string, string>;
-}
+    // Android packages of some backends carry a marker file (graphite.enabled for Graphite)
+    const marker = getMarkerFile(backend);
+    if (marker && pkg.platform === "android") {
+      fs.writeFileSync(path.join(libsDir, marker), "");
+      log(`    Created ${marker} marker file`);
+    }
 
-interface ConfigFile {
-  skia?: SkiaConfig;
-  "skia-graphite"?: SkiaConfig;
-}
+    // Generate package.json
+    const prefab = pkg.platform === "android" && options.prefab === true;
+    const packageJson = generatePackageJson(
+      pkg,
+      skiaVersion,
+      npmVersion,
+      backend,
+      prefab,
+      options.npmTag
+    );
+    fs.writeFileSync(
+      path.join(pkgDir, "package.json"),
+      JSON.stringify(packageJson, null, 2) + "\n"
+    );
 
-const generateAllFromConfig = async (
-  configPath: string,
-  outputDir: string,
-  variant: "all" | "ganesh" | "graphite" = "all",
-  patch = 0
-): Promise<string[]> => {
-  const configFullPath = path.resolve(configPath);
-  if (!fs.existsSync(configFullPath)) {
-    throw new Error(`Config file not found: ${configFullPath}`);
-  }
+    // Android packages ship CMake imported targets for the libraries that survived pruning
+    const abis = pkg.platform === "android" ? listAndroidLibraries(libsDir, pkg) : [];
+    if (pkg.platform === "android") {
+      writeCmakeConfig(pkgDir, pkg, backend, skiaVersion, npmVersion, abis);
+      log(`    Created cmake/${CMAKE_CONFIG_FILE} (${abis.length} ABIs)`);
+      if (options.prefab) {
+        writePrefabLayout(pkgDir, backend, npmVersion, abis);
+        // The layout holds copies of libs/, so it counts fully toward the package size
+        log(`    Created prefab/ layout (${formatBytes(getSize(path.join(pkgDir, PREFAB_DIR)))})`);
+      }
+    }
 
-  const config: ConfigFile = JSON.parse(fs.readFileSync(configFullPath, "utf8"));
-  const generatedDirs: string[] = [];
+    // Apple packages ship a podspec vendoring their xcframeworks
+    const xcframeworks = pkg.platform === "apple" ? listVendoredXcframeworks(libsDir) : [];
+    if (pkg.platform === "apple") {
+      fs.writeFileSync(
+        path.join(pkgDir, getPodspecName(pkg, backend)),
+        generatePodspec(pkg, backend, skiaVersion, npmVersion, xcframeworks)
+      );
+      log(`    Created ${getPodspecName(pkg, backend)} (${xcframeworks.length} xcframeworks)`);
+    }
 
-  // Generate Ganesh packages
-  if (config.skia?.version && (variant === "all" || variant === "ganesh")) {
-    const skiaVersion = config.skia.version;
-    const npmVersion = deriveNpmVersion(skiaVersion, patch);
+    // Entry point exposing the library paths to build scripts
+    const libraries = isDesktopPlatform(pkg.platform) ? listDesktopLibraries(libsDir) : [];
+    const entryPoint = generateEntryPoint(
+      pkg,
+      backend,
+      skiaVersion,
+      npmVersion,
+      abis,
+      xcframeworks,
+      libraries
+    );
+    fs.writeFileSync(path.join(pkgDir, "index.js"), entryPoint.js);
+    fs.writeFileSync(path.join(pkgDir, "index.d.ts"), entryPoint.dts);
+
+    // Generate README.md
+    const readme = generateReadme(pkg, skiaVersion, npmVersion, backend, slices, libraries);
+    fs.writeFileSync(path.join(pkgDir, "README.md"), readme);
+
+    // Measure the package and enforce its size budget
+    const size = await measurePackage(pkgDir, pkg, packageName, npmVersion, packageJson.files);
+    log(`    Size: ${formatBytes(size.raw)} (${formatBytes(size.gzip)} gzipped)`);
+    const violations = checkSizeBudget(
+      size,
+      resolveSizeBudget(options.sizeBudgets, pkg),
+      options.previousSizeReport
+    );
+    if (violations.length > 0) {
+      for (const violation of violations) {
+        log(`    [X] ${violation}`);
+      }
+      fs.rmSync(pkgDir, { recursive: true, force: true });
+      throw new Error(`Size budget exceeded for ${packageName}`);
+    }
 
-    console.log("Generating Ganesh binary packages...");
-    console.log(`  Skia version: ${skiaVersion}`);
-    console.log(`  NPM version: ${npmVersion}`);
-    console.log("");
+    log(`    Done!`);
+    return { dir: pkgDir, size };
+  } finally {
+    flush();
+  }
+};
 
-    for (const pkg of GANESH_PACKAGES) {
-      const pkgDir = await generatePackage(pkg, outputDir, skiaVersion, npmVersion, false);
-      generatedDirs.push(pkgDir);
-      console.log("");
+/**
+ * Generate the packages of every backend configured in the config file.
+ * The patch version comes from the patch argument, else the backend's "patch".
+ */
+const generateAllFromConfig = async (
+  configPath: string,
+  outputDir: string,
+  // "all", or the name or config key of one backend
+  variant = "all",
+  patch: number | undefined = undefined,
+  options: GenerateOptions = {}
+): Promise<(GeneratedPackage | null)[]> => {
+  const config = loadConfig(path.resolve(configPath));
+  const selected = variant === "all" ? undefined : resolveBackend(variant);
+  const jobs: (() => Promise<GeneratedPackage | null>)[] = [];
+
+  for (const backend of getBackends()) {
+    const skiaConfig = getBackendConfig(config, backend);
+    if (!skiaConfig || (selected && selected !== backend)) {
+      continue;
     }
-  }
 
-  // Generate Graphite packages
-  if (config["skia-graphite"]?.version && (variant === "all" || variant === "graphite")) {
-    const skiaVersion = config["skia-graphite"].version;
-    const npmVersion = deriveNpmVersion(skiaVersion, patch);
+    const skiaVersion = skiaConfig.version;
+    const npmVersion = deriveNpmVersion(skiaVersion, patch ?? skiaConfig.patch ?? 0);
 
-    console.log("Generating Graphite binary packages...");
+    console.log(`Generating ${getBackendLabel(backend)} binary packages...`);
     console.log(`  Skia version: ${skiaVersion}`);
     console.log(`  NPM version: ${npmVersion}`);
+    if (skiaConfig.npmTag) {
+      console.log(`  NPM tag: ${skiaConfig.npmTag}`);
+    }
+    if (options.source) {
+      console.log(`  Source: ${describeAssetSource(options.source)}`);
+    }
     console.log("");
 
-    for (const pkg of GRAPHITE_PACKAGES) {
-      const pkgDir = await generatePackage(pkg, outputDir, skiaVersion, npmVersion, true);
-      generatedDirs.push(pkgDir);
-      console.log("");
+    for (const pkg of selectPackages(backend, skiaConfig)) {
+      jobs.push(async () => {
+        const generated = await generatePackage(pkg, outputDir, skiaVersion, npmVersion, backend, {
+          ...options,
+          checksums: skiaConfig.checksums ?? {},
+          sizeBudgets: skiaConfig.sizeBudgets,
+          npmTag: skiaConfig.npmTag,
+        });
+        logLine("");
+        return generated;
+      });
     }
   }
 
-  return generatedDirs;
+  // Packages of every backend run side by side; downloads are bounded by options.limit
+  return settleAll(jobs.map((job) => job()));
+};
+
+/**
+ * Record what was generated: the package list for publishing and the size report.
+ * Skipped packages are null.
+ */
+const writeRunOutputs = (
+  outputDir: string,
+  results: (GeneratedPackage | null)[],
+  previousSizeReport: SizeReport | undefined
+): void => {
+  const generated = results.filter((result): result is GeneratedPackage => result !== null);
+  writeGeneratedManifest(outputDir, generated.map((pkg) => pkg.dir));
+  writeSizeReport(outputDir, generated.map((pkg) => pkg.size), previousSizeReport);
+  console.log(`Size report: ${path.join(outputDir, SIZE_REPORT_MARKDOWN_FILE)}`);
+  const skipped = results.length - generated.length;
+  console.log(
+    `Generated ${generated.length} package(s)` +
+      (skipped > 0 ? `, skipped ${skipped} without release assets` : "")
+  );
 };
 
 const main = async (): Promise<void> => {
   const args = parseArgs();
   const outputDir = (args["output-dir"] as string) || path.join(ROOT_DIR, "dist");
+  const cacheDir = resolveCacheDir(args);
+
+  let source: AssetSource;
+  let concurrency: number;
+  let previousSizeReport: SizeReport | undefined;
+  try {
+    source = resolveAssetSource(args);
+    concurrency = resolveConcurrency(args);
+    if (args["previous-size-report"]) {
+      previousSizeReport = readSizeReport(args["previous-size-report"] as string);
+    }
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  const limit = createLimiter(concurrency);
+  const bufferOutput = concurrency > 1;
+  const keepAll = args["keep-all"] === true ? true : undefined;
+  if (args.strip === true && args["no-strip"] === true) {
+    console.error("Error: --strip and --no-strip cannot be used together");
+    process.exit(1);
+  }
+  const strip = args["no-strip"] === true ? false : args.strip === true ? true : undefined;
+  const stripTool = args["strip-tool"] as string | undefined;
+  const prefab = args.prefab === true;
 
   // Config mode: generate all packages from config file
   if (args.config) {
     try {
-      const variant = (args.variant as string) || "all";
-      const patch = args.patch ? parseInt(args.patch as string, 10) : 0;
-      const generatedDirs = await generateAllFromConfig(args.config as string, outputDir, variant as "all" | "ganesh" | "graphite", patch);
-      console.log(`Generated ${generatedDirs.length} package(s)`);
+      const variant = (args.variant as string) || (args.backend as string) || "all";
+      const patch = args.patch ? parseInt(args.patch as string, 10) : undefined;
+      const allowChecksumMismatch = args["allow-checksum-mismatch"] === true;
+      const generated = await generateAllFromConfig(args.config as string, outputDir, variant, patch, {
+        allowChecksumMismatch,
+        cacheDir,
+        source,
+        limit,
+        bufferOutput,
+        keepAll,
+        strip,
+        stripTool,
+        previousSizeReport,
+        prefab,
+      });
+      writeRunOutputs(outputDir, generated, previousSizeReport);
     } catch (error) {
       console.error(`Error: ${(error as Error).message}`);
       process.exit(1);
@@ -770,10 +772,17 @@ const main = async (): Promise<void> => {
       process.exit(1);
     }
   }
-  const graphite = args.graphite === true;
+  let backend: Backend;
+  try {
+    loadBackends();
+    backend = getBackendArg(args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
   const specificPackage = args.package as string | undefined;
 
-  const packages = graphite ? GRAPHITE_PACKAGES : GANESH_PACKAGES;
+  const packages = getPackages(backend);
   const packagesToGenerate = specificPackage
     ? packages.filter((p) => p.name === specificPackage)
     : packages;
@@ -787,32 +796,43 @@ const main = async (): Promise<void> => {
   }
 
   console.log(
-    `Generating ${graphite ? "Graphite" : "Ganesh"} binary packages...`
+    `Generating ${getBackendLabel(backend)} binary packages...`
   );
   console.log(`  Skia version: ${skiaVersion}`);
   console.log(`  NPM version: ${npmVersion}`);
+  console.log(`  Source: ${describeAssetSource(source)}`);
   console.log(`  Output: ${outputDir}`);
   console.log("");
 
-  const generatedDirs: string[] = [];
-  for (const pkg of packagesToGenerate) {
-    try {
-      const pkgDir = await generatePackage(
-        pkg,
-        outputDir,
-        skiaVersion,
-        npmVersion,
-        graphite
-      );
-      generatedDirs.push(pkgDir);
-      console.log("");
-    } catch (error) {
-      console.error(`  Failed to generate ${pkg.name}: ${(error as Error).message}`);
-      process.exit(1);
-    }
+  let generated: (GeneratedPackage | null)[];
+  try {
+    generated = await settleAll(
+      packagesToGenerate.map(async (pkg) => {
+        try {
+          const result = await generatePackage(pkg, outputDir, skiaVersion, npmVersion, backend, {
+            cacheDir,
+            source,
+            limit,
+            bufferOutput,
+            keepAll,
+            strip,
+            stripTool,
+            previousSizeReport,
+            prefab,
+          });
+          logLine("");
+          return result;
+        } catch (error) {
+          throw new Error(`Failed to generate ${pkg.name}: ${(error as Error).message}`);
+        }
+      })
+    );
+  } catch (error) {
+    console.error(`  ${(error as Error).message}`);
+    process.exit(1);
   }
 
-  console.log(`Generated ${generatedDirs.length} package(s)`);
+  writeRunOutputs(outputDir, generated, previousSizeReport);
 };
 
 main();
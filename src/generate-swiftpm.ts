@@ -0,0 +1,192 @@
+/**
+ * Script to generate Swift Package Manager manifests for the Apple packages.
+ *
+ * Usage:
+ *   npx tsx src/generate-swiftpm.ts
+ *   npx tsx src/generate-swiftpm.ts --dist-dir=dist --output-dir=dist/swiftpm
+ *   npx tsx src/generate-swiftpm.ts --base-url=https://example.com/skia/m147a
+ *
+ * Options:
+ *   --dist-dir      Output directory of generate-packages (default: ./dist)
+ *   --output-dir    Where to write the Swift packages (default: <dist-dir>/swiftpm)
+ *   --base-url      URL the zips are uploaded to (default: the GitHub release of this
+ *                   repository named after the Skia release tag, e.g. skia-m147a)
+ *   --backend       Only generate the Swift package of this backend (name or config key)
+ *   --config        Config file defining additional backends (default: ./skia-config.json)
+ *
+ * For each backend, reads the Apple packages listed in <dist-dir>/generated-packages.json
+ * and writes <output-dir>/<package-prefix>/ with:
+ *   - one <package-name>-<xcframework>.zip per xcframework
+ *   - Package.swift, with a .binaryTarget (url + SwiftPM checksum) per zip and a
+ *     library product per Apple package
+ * The manifest is then validated (syntax, checksums against the zips, products).
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { DEFAULT_CONFIG_PATH, loadBackends } from "./config.js";
+import { readGeneratedManifest } from "./manifest.js";
+import { listVendoredXcframeworks } from "./podspec.js";
+import {
+  Backend,
+  DeploymentTarget,
+  PackageConfig,
+  findPackageByName,
+  getBackendLabel,
+  getBackends,
+  getPackagePrefix,
+  getReleaseTag,
+  resolveBackend,
+} from "./registry.js";
+import {
+  BinaryTarget,
+  LibraryProduct,
+  computeSwiftpmChecksum,
+  generatePackageSwift,
+  getBinaryTargetName,
+  validatePackageSwift,
+} from "./swiftpm.js";
+import { formatBytes, parseArgs } from "./utils.js";
+import { zipDirectory } from "./zip.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.join(__dirname, "..");
+
+const RELEASES_URL = "https://github.com/wcandillon/react-native-skia-binaries/releases/download";
+
+interface ApplePackage {
+  dir: string;
+  name: string;
+  skiaVersion: string;
+  pkg: PackageConfig;
+}
+
+/**
+ * Apple packages of a generate run, grouped by backend.
+ */
+const findApplePackages = (distDir: string): Map<Backend, ApplePackage[]> => {
+  const packages = new Map<Backend, ApplePackage[]>();
+  for (const dir of readGeneratedManifest(distDir)) {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(dir, "package.json"), "utf8"));
+    const match = findPackageByName(packageJson.name);
+    if (!match || match.pkg.platform !== "apple") continue;
+    const list = packages.get(match.backend) ?? [];
+    list.push({ dir, name: packageJson.name, skiaVersion: packageJson.skia.version, pkg: match.pkg });
+    packages.set(match.backend, list);
+  }
+  return packages;
+};
+
+const generateSwiftPackage = (
+  backend: Backend,
+  applePackages: ApplePackage[],
+  outputDir: string,
+  baseUrl: string | undefined
+): string => {
+  const skiaVersion = applePackages[0].skiaVersion;
+  const mismatched = applePackages.find((p) => p.skiaVersion !== skiaVersion);
+  if (mismatched) {
+    throw new Error(
+      `${mismatched.name} is Skia ${mismatched.skiaVersion}, expected ${skiaVersion} like the other packages`
+    );
+  }
+
+  const packageDir = path.join(outputDir, getPackagePrefix(backend));
+  fs.rmSync(packageDir, { recursive: true, force: true });
+  fs.mkdirSync(packageDir, { recursive: true });
+  const url = (baseUrl ?? `${RELEASES_URL}/${getReleaseTag(backend, skiaVersion)}`).replace(/\/+$/, "");
+
+  const platforms: DeploymentTarget[] = [];
+  const products: LibraryProduct[] = [];
+  const targets: BinaryTarget[] = [];
+
+  for (const { dir, name, pkg } of applePackages) {
+    if (pkg.deploymentTarget) {
+      platforms.push(pkg.deploymentTarget);
+    }
+    const suffix = pkg.name.replace(/^apple-/, "");
+    const product: LibraryProduct = { name, targets: [] };
+
+    for (const xcframework of listVendoredXcframeworks(path.join(dir, "libs"))) {
+      const zipName = `${name}-${xcframework}.zip`;
+      const zipPath = path.join(packageDir, zipName);
+      zipDirectory(path.join(dir, "libs", xcframework), zipPath);
+      const target: BinaryTarget = {
+        name: getBinaryTargetName(xcframework, suffix),
+        url: `${url}/${encodeURIComponent(zipName)}`,
+        checksum: computeSwiftpmChecksum(zipPath),
+      };
+      targets.push(target);
+      product.targets.push(target.name);
+      console.log(`    ${zipName} (${formatBytes(fs.statSync(zipPath).size)})`);
+    }
+    products.push(product);
+  }
+
+  const manifest = generatePackageSwift({
+    name: getPackagePrefix(backend),
+    comment: `Generated by react-native-skia-binaries from Skia ${skiaVersion} (${getBackendLabel(backend)})`,
+    platforms,
+    products,
+    targets,
+  });
+  const manifestPath = path.join(packageDir, "Package.swift");
+  fs.writeFileSync(manifestPath, manifest);
+
+  const problems = validatePackageSwift(manifest, packageDir);
+  if (problems.length > 0) {
+    for (const problem of problems) {
+      console.log(`    [X] ${problem}`);
+    }
+    throw new Error(`Invalid ${manifestPath}`);
+  }
+  return manifestPath;
+};
+
+const main = async (): Promise<void> => {
+  const args = parseArgs();
+  const distDir = path.resolve((args["dist-dir"] as string) || path.join(ROOT_DIR, "dist"));
+  const outputDir = path.resolve((args["output-dir"] as string) || path.join(distDir, "swiftpm"));
+  const baseUrl = typeof args["base-url"] === "string" ? args["base-url"] : undefined;
+
+  let packages: Map<Backend, ApplePackage[]>;
+  try {
+    loadBackends(path.resolve((args.config as string) || DEFAULT_CONFIG_PATH));
+    packages = findApplePackages(distDir);
+    if (typeof args.backend === "string") {
+      const backend = resolveBackend(args.backend);
+      packages = new Map([...packages].filter(([b]) => b === backend));
+    }
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  if (packages.size === 0) {
+    console.error(`Error: no Apple packages in ${distDir}`);
+    process.exit(1);
+  }
+
+  console.log("Generating Swift packages...");
+  console.log(`  Packages: ${distDir}`);
+  console.log(`  Output: ${outputDir}`);
+  console.log("");
+
+  for (const backend of getBackends()) {
+    const applePackages = packages.get(backend);
+    if (!applePackages) continue;
+    console.log(`  ${getPackagePrefix(backend)} (${getBackendLabel(backend)})`);
+    try {
+      const manifestPath = generateSwiftPackage(backend, applePackages, outputDir, baseUrl);
+      console.log(`  [OK] ${manifestPath}`);
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    console.log("");
+  }
+
+  console.log("Upload the zips to the base URL before publishing the Package.swift files.");
+};
+
+main();
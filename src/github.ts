@@ -0,0 +1,210 @@
+/**
+ * Authenticated access to GitHub releases.
+ *
+ * When GITHUB_TOKEN or GH_TOKEN is set, assets are resolved through the
+ * releases API instead of the public download URL. This uses the token's
+ * rate limit instead of the shared anonymous one, and also reaches draft and
+ * pre-release assets in forks or private repositories.
+ *
+ * The token is only ever sent in an Authorization header and is redacted from
+ * any error message built here. API requests time out and are retried like
+ * asset downloads (see retry.ts).
+ */
+
+import https from "https";
+import {
+  RetryableError,
+  SOCKET_TIMEOUT_MS,
+  getRateLimitReset,
+  getRetryDelay,
+  getServerRetryDelay,
+  isRetryable,
+} from "./retry.js";
+import { sleep } from "./utils.js";
+
+const MAX_RETRIES = 5;
+
+const API_BASE = "https://api.github.com";
+
+interface ReleaseAsset {
+  name: string;
+  // API URL; downloads the asset when requested with Accept: application/octet-stream
+  url: string;
+}
+
+interface Release {
+  tag_name: string;
+  draft: boolean;
+  assets: ReleaseAsset[];
+}
+
+type GitHubApiError = RetryableError;
+
+export const getGitHubToken = (): string | undefined =>
+  process.env.GITHUB_TOKEN || process.env.GH_TOKEN || undefined;
+
+/**
+ * Replace any occurrence of the token in a message.
+ */
+export const redactToken = (message: string, token = getGitHubToken()): string =>
+  token ? message.split(token).join("***") : message;
+
+export const getAuthHeaders = (token: string): Record<string, string> => ({
+  Authorization: `Bearer ${token}`,
+  "X-GitHub-Api-Version": "2022-11-28",
+});
+
+const requestJson = <T>(url: string, token: string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const req = https
+      .get(
+        url,
+        {
+          headers: {
+            "User-Agent": "node",
+            Accept: "application/vnd.github+json",
+            ...getAuthHeaders(token),
+          },
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on("data", (chunk: Buffer) => chunks.push(chunk));
+          res.on("error", reject);
+          res.on("end", () => {
+            const body = Buffer.concat(chunks).toString("utf8");
+            if (res.statusCode !== 200) {
+              let detail = res.statusMessage ?? "";
+              try {
+                detail = (JSON.parse(body) as { message?: string }).message ?? detail;
+              } catch {
+                // Not JSON, keep the status message
+              }
+              const reset = getRateLimitReset(res.headers);
+              if (reset) {
+                detail += ` (rate limit resets at ${reset.toISOString()})`;
+              }
+              const error: GitHubApiError = new Error(
+                redactToken(`GitHub API ${res.statusCode}: ${detail}`, token)
+              );
+              error.statusCode = res.statusCode;
+              error.retryAfterMs = getServerRetryDelay(res.headers);
+              reject(error);
+              return;
+            }
+            try {
+              resolve(JSON.parse(body) as T);
+            } catch (error) {
+              reject(error);
+            }
+          });
+        }
+      )
+      .on("error", (error: GitHubApiError) => {
+        error.message = redactToken(error.message, token);
+        reject(error);
+      });
+    req.setTimeout(SOCKET_TIMEOUT_MS, () => {
+      const error: GitHubApiError = new Error(
+        `GitHub API request timed out after ${SOCKET_TIMEOUT_MS / 1000}s`
+      );
+      error.code = "ETIMEDOUT";
+      req.destroy(error);
+    });
+  });
+
+/**
+ * GET a GitHub API URL, retrying network errors, timeouts, 5xx responses and
+ * rate limits.
+ */
+const fetchJson = async <T>(
+  url: string,
+  token: string,
+  log: (message: string) => void,
+  retryCount = 0
+): Promise<T> => {
+  try {
+    return await requestJson<T>(url, token);
+  } catch (error) {
+    const apiError = error as GitHubApiError;
+    if (retryCount >= MAX_RETRIES || !isRetryable(apiError)) {
+      throw apiError;
+    }
+    const delay = getRetryDelay(apiError, retryCount);
+    log(
+      `      ${apiError.message}; retry ${retryCount + 1}/${MAX_RETRIES} in ${Math.ceil(delay / 1000)}s...`
+    );
+    await sleep(delay);
+    return fetchJson<T>(url, token, log, retryCount + 1);
+  }
+};
+
+/**
+ * Find a release by tag. The tags endpoint doesn't return drafts, so fall back
+ * to listing releases, which includes drafts visible to the token.
+ */
+const findRelease = async (
+  repo: string,
+  releaseTag: string,
+  token: string,
+  log: (message: string) => void
+): Promise<Release> => {
+  try {
+    return await fetchJson<Release>(
+      `${API_BASE}/repos/${repo}/releases/tags/${encodeURIComponent(releaseTag)}`,
+      token,
+      log
+    );
+  } catch (error) {
+    if ((error as GitHubApiError).statusCode !== 404) {
+      throw error;
+    }
+  }
+
+  for (let page = 1; ; page++) {
+    const releases = await fetchJson<Release[]>(
+      `${API_BASE}/repos/${repo}/releases?per_page=100&page=${page}`,
+      token,
+      log
+    );
+    const release = releases.find((r) => r.tag_name === releaseTag);
+    if (release) {
+      return release;
+    }
+    if (releases.length < 100) {
+      throw new Error(`Release ${releaseTag} not found in ${repo}`);
+    }
+  }
+};
+
+// Releases are looked up once per run, however many assets are downloaded from them
+const releaseCache = new Map<string, Promise<Release>>();
+
+/**
+ * API URL of a release asset, to be downloaded with Accept: application/octet-stream.
+ */
+export const resolveReleaseAssetUrl = async (
+  repo: string,
+  releaseTag: string,
+  assetName: string,
+  token: string,
+  log: (message: string) => void = console.log
+): Promise<string> => {
+  const key = `${repo}@${releaseTag}`;
+  if (!releaseCache.has(key)) {
+    const lookup = findRelease(repo, releaseTag, token, log);
+    // Don't remember failed lookups, so a later attempt can retry
+    lookup.catch(() => releaseCache.delete(key));
+    releaseCache.set(key, lookup);
+  }
+
+  const release = await releaseCache.get(key)!;
+  const asset = release.assets.find((a) => a.name === assetName);
+  if (!asset) {
+    const error: GitHubApiError = new Error(
+      `Asset ${assetName} not found in ${release.draft ? "draft " : ""}release ${releaseTag} of ${repo}`
+    );
+    error.statusCode = 404;
+    throw error;
+  }
+  return asset.url;
+};
@@ -0,0 +1,42 @@
+/**
+ * Record of the package directories produced by a generate run.
+ *
+ * generate-packages writes <output-dir>/generated-packages.json with the
+ * generatedDirs it returned, so later steps (publish, validation) work on
+ * exactly those packages instead of globbing the output directory.
+ */
+
+import fs from "fs";
+import path from "path";
+
+export const MANIFEST_FILE = "generated-packages.json";
+
+interface GeneratedManifest {
+  // Package directories, relative to the output directory
+  packages: string[];
+}
+
+export const writeGeneratedManifest = (outputDir: string, generatedDirs: string[]): void => {
+  const manifest: GeneratedManifest = {
+    packages: generatedDirs.map((dir) => path.relative(outputDir, dir)),
+  };
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(outputDir, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2) + "\n"
+  );
+};
+
+/**
+ * Absolute package directories listed in <outputDir>/generated-packages.json.
+ */
+export const readGeneratedManifest = (outputDir: string): string[] => {
+  const manifestPath = path.join(outputDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(
+      `${MANIFEST_FILE} not found in ${outputDir}. Run generate-packages first.`
+    );
+  }
+  const manifest: GeneratedManifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  return manifest.packages.map((dir) => path.resolve(outputDir, dir));
+};
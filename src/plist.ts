@@ -0,0 +1,185 @@
+/**
+ * Parser for XML property lists, such as an xcframework's Info.plist.
+ *
+ * Handles every XML plist value type: dict, array, string, integer, real,
+ * true/false, data (base64) and date. Binary plists are not supported;
+ * xcodebuild writes xcframework Info.plist files as XML.
+ */
+
+export type PlistValue =
+  | string
+  | number
+  | boolean
+  | Buffer
+  | Date
+  | PlistValue[]
+  | { [key: string]: PlistValue };
+
+export type PlistDict = { [key: string]: PlistValue };
+
+interface Tag {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+}
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity.startsWith("#x") ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+
+export const parsePlist = (xml: string): PlistValue => {
+  if (xml.startsWith("bplist")) {
+    throw new Error("Binary plists are not supported");
+  }
+
+  let pos = 0;
+
+  const error = (message: string): Error =>
+    new Error(`Invalid plist at offset ${pos}: ${message}`);
+
+  const skipWhitespace = (): void => {
+    while (pos < xml.length && /\s/.test(xml[pos])) {
+      pos++;
+    }
+  };
+
+  const skipPast = (marker: string): void => {
+    const end = xml.indexOf(marker, pos);
+    if (end === -1) {
+      throw error(`unterminated "${marker}"`);
+    }
+    pos = end + marker.length;
+  };
+
+  // XML declaration, DOCTYPE, comments and whitespace before the root element
+  const skipProlog = (): void => {
+    for (;;) {
+      skipWhitespace();
+      if (xml.startsWith("<?", pos)) {
+        skipPast("?>");
+      } else if (xml.startsWith("<!--", pos)) {
+        skipPast("-->");
+      } else if (xml.startsWith("<!", pos)) {
+        skipPast(">");
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readTag = (): Tag => {
+    skipWhitespace();
+    while (xml.startsWith("<!--", pos)) {
+      skipPast("-->");
+      skipWhitespace();
+    }
+    if (xml[pos] !== "<") {
+      throw error("expected a tag");
+    }
+    const end = xml.indexOf(">", pos);
+    if (end === -1) {
+      throw error("unterminated tag");
+    }
+    const body = xml.slice(pos + 1, end).trim();
+    pos = end + 1;
+
+    const closing = body.startsWith("/");
+    const selfClosing = body.endsWith("/");
+    const name = body.replace(/^\//, "").replace(/\/$/, "").split(/\s/)[0];
+    return { name, closing, selfClosing };
+  };
+
+  const expectClosing = (name: string): void => {
+    const tag = readTag();
+    if (!tag.closing || tag.name !== name) {
+      throw error(`expected </${name}>, found <${tag.closing ? "/" : ""}${tag.name}>`);
+    }
+  };
+
+  const readText = (name: string): string => {
+    const end = xml.indexOf(`</${name}>`, pos);
+    if (end === -1) {
+      throw error(`unterminated <${name}>`);
+    }
+    const text = decodeEntities(xml.slice(pos, end));
+    pos = end + name.length + 3;
+    return text;
+  };
+
+  const readValue = (tag: Tag): PlistValue => {
+    if (tag.closing) {
+      throw error(`unexpected </${tag.name}>`);
+    }
+
+    switch (tag.name) {
+      case "true":
+      case "false":
+        if (!tag.selfClosing) expectClosing(tag.name);
+        return tag.name === "true";
+      case "string":
+        return tag.selfClosing ? "" : readText("string");
+      case "integer":
+      case "real": {
+        const text = tag.selfClosing ? "" : readText(tag.name).trim();
+        const value = tag.name === "integer" ? parseInt(text, 10) : parseFloat(text);
+        if (Number.isNaN(value)) {
+          throw error(`invalid <${tag.name}> "${text}"`);
+        }
+        return value;
+      }
+      case "data":
+        return Buffer.from(tag.selfClosing ? "" : readText("data").replace(/\s+/g, ""), "base64");
+      case "date":
+        return new Date(readText("date").trim());
+      case "array": {
+        const items: PlistValue[] = [];
+        if (tag.selfClosing) return items;
+        for (;;) {
+          const next = readTag();
+          if (next.closing && next.name === "array") return items;
+          items.push(readValue(next));
+        }
+      }
+      case "dict": {
+        const dict: PlistDict = {};
+        if (tag.selfClosing) return dict;
+        for (;;) {
+          const next = readTag();
+          if (next.closing && next.name === "dict") return dict;
+          if (next.name !== "key") {
+            throw error(`expected <key> in <dict>, found <${next.name}>`);
+          }
+          const key = next.selfClosing ? "" : readText("key");
+          dict[key] = readValue(readTag());
+        }
+      }
+      default:
+        throw error(`unsupported element <${tag.name}>`);
+    }
+  };
+
+  skipProlog();
+  const root = readTag();
+  if (root.name !== "plist" || root.closing) {
+    throw error(`expected <plist>, found <${root.name}>`);
+  }
+  const value = readValue(readTag());
+  expectClosing("plist");
+  return value;
+};
@@ -0,0 +1,64 @@
+/**
+ * CocoaPods podspec for Apple binary packages, so a native iOS/macOS project
+ * or a custom pod can depend on a package directly:
+ *
+ *   pod 'react-native-skia-apple-ios', :path => '../node_modules/react-native-skia-apple-ios'
+ */
+
+import fs from "fs";
+import path from "path";
+import { Backend, PackageConfig, getBackendLabel, getPackageName } from "./registry.js";
+
+const HOMEPAGE = "https://github.com/wcandillon/react-native-skia-binaries";
+
+/**
+ * A single-quoted Ruby string literal. Only backslash and ' are special inside one.
+ */
+const rubyString = (value: string): string => `'${value.replace(/[\\']/g, "\\$&")}'`;
+
+/**
+ * The .xcframework directories at the root of a libs directory, sorted.
+ */
+export const listVendoredXcframeworks = (libsDir: string): string[] =>
+  fs.existsSync(libsDir)
+    ? fs
+        .readdirSync(libsDir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && entry.name.endsWith(".xcframework"))
+        .map((entry) => entry.name)
+        .sort()
+    : [];
+
+export const generatePodspec = (
+  pkg: PackageConfig,
+  backend: Backend,
+  skiaVersion: string,
+  npmVersion: string,
+  xcframeworks: string[]
+): string => {
+  const packageName = getPackageName(pkg, backend);
+  const target = pkg.deploymentTarget;
+  if (!target) {
+    throw new Error(`${packageName} has no deploymentTarget in the registry`);
+  }
+
+  const label = getBackendLabel(backend);
+  // The header is a Ruby comment, which a newline would end
+  return `# Generated by react-native-skia-binaries from Skia ${skiaVersion} (${label.replace(/\s+/g, " ")})
+Pod::Spec.new do |s|
+  s.name         = ${rubyString(packageName)}
+  s.version      = ${rubyString(npmVersion)}
+  s.summary      = ${rubyString(pkg.description)}
+  s.description  = ${rubyString(`Skia ${skiaVersion} (${label}) prebuilt xcframeworks from Shopify/react-native-skia.`)}
+  s.homepage     = ${rubyString(HOMEPAGE)}
+  s.license      = { :type => 'MIT' }
+  s.authors      = 'react-native-skia-binaries contributors'
+  s.source       = { :http => ${rubyString(`https://registry.npmjs.org/${packageName}/-/${packageName}-${npmVersion}.tgz`)}, :flatten => true }
+
+  s.${target.platform}.deployment_target = ${rubyString(target.version)}
+
+  s.vendored_frameworks = [
+${xcframeworks.map((name) => `    ${rubyString(path.posix.join("libs", name))},`).join("\n")}
+  ]
+end
+`;
+};
@@ -0,0 +1,75 @@
+/**
+ * Prefab layout for Android packages, the format the Android Gradle Plugin
+ * reads native dependencies from:
+ *
+ *   prefab/prefab.json
+ *   prefab/modules/<library>/module.json
+ *   prefab/modules/<library>/libs/android.<abi>/abi.json
+ *   prefab/modules/<library>/libs/android.<abi>/lib<library>.a
+ *
+ * Libraries are copied from libs/<abi>/, so a prefab package ships every
+ * library twice; it is only generated with --prefab.
+ */
+
+import fs from "fs";
+import path from "path";
+import { AbiLibraries, getLibraryDependencies } from "./cmake.js";
+import { Backend, getPackagePrefix } from "./registry.js";
+
+export const PREFAB_DIR = "prefab";
+
+// Oldest Android API level and NDK major version the libraries are built for
+const PREFAB_MIN_SDK = 21;
+const PREFAB_NDK_MAJOR = 26;
+const PREFAB_STL = "c++_shared";
+
+const writeJson = (file: string, value: unknown): void => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value, null, 2) + "\n");
+};
+
+/**
+ * Write <pkgDir>/prefab with one module per library found in libs/<abi>/.
+ */
+export const writePrefabLayout = (
+  pkgDir: string,
+  backend: Backend,
+  npmVersion: string,
+  abis: AbiLibraries[]
+): void => {
+  const prefabDir = path.join(pkgDir, PREFAB_DIR);
+  fs.rmSync(prefabDir, { recursive: true, force: true });
+
+  writeJson(path.join(prefabDir, "prefab.json"), {
+    schema_version: 2,
+    name: getPackagePrefix(backend),
+    version: npmVersion,
+    dependencies: [],
+  });
+
+  const modules = [...new Set(abis.flatMap(({ libraries }) => libraries))];
+  for (const library of modules) {
+    const moduleDir = path.join(prefabDir, "modules", library);
+    writeJson(path.join(moduleDir, "module.json"), {
+      export_libraries: getLibraryDependencies(library, modules).map((dependency) => `:${dependency}`),
+      library_name: `lib${library}`,
+      android: {},
+    });
+
+    for (const { arch, libraries } of abis) {
+      if (!libraries.includes(library)) continue;
+      const abiDir = path.join(moduleDir, "libs", `android.${arch}`);
+      writeJson(path.join(abiDir, "abi.json"), {
+        abi: arch,
+        api: PREFAB_MIN_SDK,
+        ndk: PREFAB_NDK_MAJOR,
+        stl: PREFAB_STL,
+        static: true,
+      });
+      fs.copyFileSync(
+        path.join(pkgDir, "libs", arch, `lib${library}.a`),
+        path.join(abiDir, `lib${library}.a`)
+      );
+    }
+  }
+};
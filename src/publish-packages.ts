@@ -0,0 +1,252 @@
+/**
+ * Script to publish the packages produced by generate-packages.
+ *
+ * Usage:
+ *   npx tsx src/publish-packages.ts
+ *   npx tsx src/publish-packages.ts --dry-run
+ *   npx tsx src/publish-packages.ts --tag=next --registry=http://localhost:4873
+ *
+ * Options:
+ *   --dist-dir      Output directory of generate-packages (default: ./dist)
+ *   --registry      npm registry to check and publish to (default: npm's configured registry)
+ *   --tag           dist-tag to publish under (default: the package's publishConfig.tag,
+ *                   set from the config's "npmTag", else npm's default, "latest")
+ *   --dry-run       Check the registry and run `npm publish --dry-run` without publishing
+ *   --provenance    Publish with provenance attestations (CI only)
+ *   --summary       Also write the JSON summary to this file
+ *   --backend       Only publish the packages of this backend (name or config key)
+ *   --config        Config file defining additional backends (default: ./skia-config.json)
+ *
+ * Publishes the packages listed in <dist-dir>/generated-packages.json.
+ * Versions already on the registry are skipped, so an interrupted run can be
+ * resumed. Packages are published after any generated package they depend on.
+ * The last thing printed is a JSON summary of every package's status.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { DEFAULT_CONFIG_PATH, loadBackends } from "./config.js";
+import { readGeneratedManifest } from "./manifest.js";
+import { resolveBackend } from "./registry.js";
+import { captureCommand, parseArgs, runCommand } from "./utils.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(__dirname, "..");
+
+interface PackageToPublish {
+  name: string;
+  version: string;
+  dir: string;
+  // skia.backend of the generated package.json
+  backend?: string;
+  dependsOn: string[];
+}
+
+type PublishStatus = "published" | "dry-run" | "skipped" | "failed" | "not-attempted";
+
+interface PublishResult {
+  name: string;
+  version: string;
+  dir: string;
+  status: PublishStatus;
+  error?: string;
+}
+
+interface PublishOptions {
+  registry?: string;
+  tag?: string;
+  dryRun: boolean;
+  provenance: boolean;
+}
+
+const readPackage = (dir: string): PackageToPublish => {
+  const packageJsonPath = path.join(dir, "package.json");
+  if (!fs.existsSync(packageJsonPath)) {
+    throw new Error(`package.json not found in ${dir}`);
+  }
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+  return {
+    name: packageJson.name,
+    version: packageJson.version,
+    dir,
+    backend: packageJson.skia?.backend,
+    dependsOn: Object.keys({
+      ...packageJson.dependencies,
+      ...packageJson.optionalDependencies,
+      ...packageJson.peerDependencies,
+    }),
+  };
+};
+
+/**
+ * Order packages so each comes after the generated packages it depends on.
+ * Otherwise keeps the manifest order.
+ */
+const sortByDependencies = (packages: PackageToPublish[]): PackageToPublish[] => {
+  const byName = new Map(packages.map((pkg) => [pkg.name, pkg]));
+  const sorted: PackageToPublish[] = [];
+  const state = new Map<string, "visiting" | "done">();
+
+  const visit = (pkg: PackageToPublish, chain: string[]): void => {
+    if (state.get(pkg.name) === "done") return;
+    if (state.get(pkg.name) === "visiting") {
+      throw new Error(`Dependency cycle: ${[...chain, pkg.name].join(" -> ")}`);
+    }
+    state.set(pkg.name, "visiting");
+    for (const dependency of pkg.dependsOn) {
+      const dependencyPkg = byName.get(dependency);
+      if (dependencyPkg) {
+        visit(dependencyPkg, [...chain, pkg.name]);
+      }
+    }
+    state.set(pkg.name, "done");
+    sorted.push(pkg);
+  };
+
+  for (const pkg of packages) {
+    visit(pkg, []);
+  }
+  return sorted;
+};
+
+const registryArgs = (options: PublishOptions): string[] =>
+  options.registry ? [`--registry=${options.registry}`] : [];
+
+/**
+ * Whether name@version is already on the registry.
+ */
+const isPublished = async (
+  pkg: PackageToPublish,
+  options: PublishOptions
+): Promise<boolean> => {
+  const result = await captureCommand("npm", [
+    "view",
+    `${pkg.name}@${pkg.version}`,
+    "version",
+    ...registryArgs(options),
+  ]);
+  if (result.code === 0) {
+    // npm prints nothing when the package exists but the version doesn't
+    return result.stdout.trim() !== "";
+  }
+  if (/E404/.test(result.stdout + result.stderr)) {
+    return false;
+  }
+  throw new Error(
+    `Could not query ${pkg.name}@${pkg.version}: ${result.stderr.trim() || `npm exited with code ${result.code}`}`
+  );
+};
+
+const publishPackage = (pkg: PackageToPublish, options: PublishOptions): Promise<void> =>
+  runCommand(
+    "npm",
+    [
+      "publish",
+      "--access",
+      "public",
+      ...(options.tag ? [`--tag=${options.tag}`] : []),
+      ...registryArgs(options),
+      ...(options.dryRun ? ["--dry-run"] : []),
+      ...(options.provenance && !options.dryRun ? ["--provenance"] : []),
+    ],
+    // npm's output goes to stderr so stdout ends with just the summary
+    { cwd: pkg.dir, stdio: ["ignore", process.stderr, "inherit"] }
+  );
+
+const publishAll = async (
+  packages: PackageToPublish[],
+  options: PublishOptions
+): Promise<PublishResult[]> => {
+  const results: PublishResult[] = [];
+  let failed = false;
+
+  for (const pkg of packages) {
+    const result: PublishResult = {
+      name: pkg.name,
+      version: pkg.version,
+      dir: path.relative(process.cwd(), pkg.dir),
+      status: "not-attempted",
+    };
+    results.push(result);
+    // Stop at the first failure; later packages may depend on it
+    if (failed) continue;
+
+    const id = `${pkg.name}@${pkg.version}`;
+    try {
+      if (await isPublished(pkg, options)) {
+        console.log(`[-] ${id} already published, skipping`);
+        result.status = "skipped";
+        continue;
+      }
+
+      console.log(`[>] Publishing ${id}${options.dryRun ? " (dry run)" : ""}...`);
+      await publishPackage(pkg, options);
+      result.status = options.dryRun ? "dry-run" : "published";
+      console.log(`[OK] ${id}`);
+    } catch (error) {
+      result.status = "failed";
+      result.error = (error as Error).message;
+      console.log(`[X] ${id}: ${result.error}`);
+      failed = true;
+    }
+  }
+
+  return results;
+};
+
+const main = async (): Promise<void> => {
+  const args = parseArgs();
+  const distDir = path.resolve((args["dist-dir"] as string) || path.join(ROOT_DIR, "dist"));
+  const options: PublishOptions = {
+    registry: args.registry as string | undefined,
+    tag: args.tag as string | undefined,
+    dryRun: args["dry-run"] === true,
+    provenance: args.provenance === true,
+  };
+
+  let packages: PackageToPublish[];
+  try {
+    packages = readGeneratedManifest(distDir).map(readPackage);
+    if (typeof args.backend === "string") {
+      loadBackends(path.resolve((args.config as string) || DEFAULT_CONFIG_PATH));
+      const backend = resolveBackend(args.backend);
+      packages = packages.filter((pkg) => pkg.backend === backend);
+    }
+    packages = sortByDependencies(packages);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  console.log(`Publishing ${packages.length} package(s)...`);
+  console.log(`  Packages: ${distDir}`);
+  console.log(`  Registry: ${options.registry ?? "(npm default)"}`);
+  console.log(`  Tag: ${options.tag ?? "(npm default)"}`);
+  if (options.dryRun) {
+    console.log(`  Dry run: nothing will be published`);
+  }
+  console.log("");
+
+  const results = await publishAll(packages, options);
+
+  const summary = {
+    registry: options.registry ?? null,
+    tag: options.tag ?? null,
+    dryRun: options.dryRun,
+    packages: results,
+  };
+  const json = JSON.stringify(summary, null, 2);
+  if (args.summary) {
+    fs.writeFileSync(args.summary as string, json + "\n");
+  }
+
+  console.log("");
+  console.log(json);
+
+  if (results.some((result) => result.status === "failed")) {
+    process.exit(1);
+  }
+};
+
+main();
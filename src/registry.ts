@@ -0,0 +1,635 @@
+/**
+ * Registry of the Skia release artifacts and the npm packages built from them.
+ *
+ * This is the single source of truth for every CLI: generate-packages,
+ * download-binaries and verify-checksums all derive artifact names, archive
+ * subdirectories, destinations and checksum keys from here. Adding a platform
+ * means adding a package entry below.
+ *
+ * Ganesh and Graphite are built in. Other backends are defined by top-level
+ * keys of skia-config.json (see config.ts) and registered at startup, derived
+ * from a built-in one with their own prefixes and post-processing.
+ */
+
+// Name of a built-in backend, or the config key of one defined in skia-config.json
+export type Backend = string;
+
+type BuiltinBackend = "ganesh" | "graphite";
+
+export const BUILTIN_BACKENDS: BuiltinBackend[] = ["ganesh", "graphite"];
+
+export interface AndroidArch {
+  // Android ABI, also the destination directory under libs/
+  arch: string;
+  artifact: string;
+  // Directory inside the release archive that holds this ABI
+  srcSubdir: string;
+  checksumKey: string;
+}
+
+/**
+ * A slice every .xcframework of an Apple package must provide, as listed in
+ * the AvailableLibraries of its Info.plist.
+ */
+export interface XcframeworkSlice {
+  // SupportedPlatform, e.g. "ios"
+  platform: string;
+  // SupportedPlatformVariant; omitted for device / native slices
+  variant?: "simulator" | "maccatalyst";
+  // Architectures the slice must include
+  architectures: string[];
+}
+
+/**
+ * CocoaPods platform and minimum deployment target of an Apple package's podspec.
+ */
+export interface DeploymentTarget {
+  platform: "ios" | "tvos" | "osx";
+  version: string;
+}
+
+export interface PackageConfig {
+  name: string;
+  platform: "android" | "apple" | "linux" | "windows" | "common";
+  description: string;
+  // For Android: list of architectures to include
+  androidArchs?: AndroidArch[];
+  // For Apple, desktop and headers: single artifact
+  artifact?: string;
+  libSubdir?: string;
+  checksumKey?: string;
+  // For Linux and Windows: CPU architecture the static libraries are built for
+  cpu?: DesktopCpu;
+  // Only packaged when the release provides its assets; missing ones are skipped
+  optional?: boolean;
+  // For Apple: slices required in every xcframework
+  xcframeworkSlices?: XcframeworkSlice[];
+  // For Apple: deployment target declared in the generated podspec
+  deploymentTarget?: DeploymentTarget;
+}
+
+export type DesktopCpu = "x64" | "arm64";
+
+/**
+ * A single release asset as it is installed into a package.
+ */
+export interface ArtifactDefinition {
+  artifact: string;
+  srcSubdir: string;
+  // Destination relative to the package libs/ directory ("" for the root)
+  destSubdir: string;
+  checksumKey: string;
+}
+
+/**
+ * What belongs in a package's libraries: entries directly inside each Android
+ * ABI directory, or directly inside libs/ for Apple, Linux and Windows packages. Everything else
+ * is pruned when packages are generated (unless --keep-all).
+ *
+ * Patterns may use "*" as a wildcard.
+ */
+export interface LibraryManifest {
+  // Must be present; validate-packages fails without them
+  required: string[];
+  // Additional entries to keep
+  allow?: string[];
+  // Entries to remove even if required or allowed
+  deny?: string[];
+}
+
+// Static libraries react-native-skia links on Android (its CMakeLists.txt)
+const ANDROID_LIBS = [
+  "libskia.a",
+  "libsvg.a",
+  "libskshaper.a",
+  "libskottie.a",
+  "libsksg.a",
+  "libskparagraph.a",
+  "libskunicode_core.a",
+  "libskunicode_icu.a",
+  "libpathops.a",
+  "libjsonreader.a",
+];
+
+// xcframeworks react-native-skia vendors on Apple platforms (its podspec)
+const APPLE_XCFRAMEWORKS = [
+  "libskia.xcframework",
+  "libsvg.xcframework",
+  "libskshaper.xcframework",
+  "libskottie.xcframework",
+  "libsksg.xcframework",
+  "libskparagraph.xcframework",
+  "libskunicode_core.xcframework",
+  "libskunicode_libgrapheme.xcframework",
+  "libpathops.xcframework",
+  "libjsonreader.xcframework",
+];
+
+// Static libraries of the Linux and Windows packages: the Android set, built
+// for desktop. Windows libraries use the MSVC naming (skia.lib)
+const LINUX_LIBS = ANDROID_LIBS;
+const WINDOWS_LIBS = ANDROID_LIBS.map((lib) => lib.replace(/^lib(.*)\.a$/, "$1.lib"));
+
+type Platform = PackageConfig["platform"];
+
+export const isDesktopPlatform = (platform: Platform): platform is "linux" | "windows" =>
+  platform === "linux" || platform === "windows";
+
+const IOS_SLICES: XcframeworkSlice[] = [
+  { platform: "ios", architectures: ["arm64"] },
+  { platform: "ios", variant: "simulator", architectures: ["arm64", "x86_64"] },
+  { platform: "ios", variant: "maccatalyst", architectures: ["arm64", "x86_64"] },
+];
+
+const TVOS_SLICES: XcframeworkSlice[] = [
+  { platform: "tvos", architectures: ["arm64"] },
+  { platform: "tvos", variant: "simulator", architectures: ["arm64", "x86_64"] },
+];
+
+const MACOS_SLICES: XcframeworkSlice[] = [
+  { platform: "macos", architectures: ["arm64", "x86_64"] },
+];
+
+// Same minimums as the react-native-skia podspec
+const IOS_DEPLOYMENT_TARGET: DeploymentTarget = { platform: "ios", version: "14.0" };
+const TVOS_DEPLOYMENT_TARGET: DeploymentTarget = { platform: "tvos", version: "13.0" };
+const MACOS_DEPLOYMENT_TARGET: DeploymentTarget = { platform: "osx", version: "11.0" };
+
+export interface BackendConfig {
+  label: string;
+  // Top-level key in skia-config.json
+  configKey: string;
+  // Release tags are <releasePrefix>-<skia version>
+  releasePrefix: string;
+  // npm package names are react-native-<packagePrefix>-<package>
+  packagePrefix: string;
+  // Prefix of the release asset names, e.g. "skia-graphite" in skia-graphite-android-arm
+  artifactPrefix: string;
+  packages: PackageConfig[];
+  // Per platform; platforms without a manifest are not pruned
+  manifests: Partial<Record<Platform, LibraryManifest>>;
+  // Whether libraries are pruned to the manifests unless --keep-all is given
+  prune: boolean;
+  // Whether Android libraries are stripped of debug symbols unless --strip/--no-strip is given
+  stripAndroid: boolean;
+  // Empty marker file written to libs/ of Android packages
+  marker?: string;
+  // Whether the libraries are built with Graphite and link Dawn
+  graphite: boolean;
+}
+
+/**
+ * How a skia-config.json block derives a backend from a built-in one. Omitted
+ * fields keep the built-in's value; prefixes default to the config key.
+ */
+export interface BackendDefinition {
+  extends?: BuiltinBackend;
+  label?: string;
+  releasePrefix?: string;
+  packagePrefix?: string;
+  artifactPrefix?: string;
+  prune?: boolean;
+  strip?: boolean;
+  // null disables the built-in's marker
+  marker?: string | null;
+}
+
+// Package configurations for Ganesh (standard Metal/OpenGL backend)
+export const GANESH_PACKAGES: PackageConfig[] = [
+  {
+    name: "android",
+    platform: "android",
+    description: "Skia prebuilt binaries for Android (all architectures)",
+    androidArchs: [
+      { arch: "armeabi-v7a", artifact: "skia-android-arm", srcSubdir: "armeabi-v7a", checksumKey: "android-armeabi-v7a" },
+      { arch: "arm64-v8a", artifact: "skia-android-arm-64", srcSubdir: "arm64-v8a", checksumKey: "android-arm64-v8a" },
+      { arch: "x86", artifact: "skia-android-arm-x86", srcSubdir: "x86", checksumKey: "android-x86" },
+      { arch: "x86_64", artifact: "skia-android-arm-x64", srcSubdir: "x86_64", checksumKey: "android-x86_64" },
+    ],
+  },
+  {
+    name: "apple-ios",
+    platform: "apple",
+    description: "Skia prebuilt binaries for iOS (device + simulator)",
+    artifact: "skia-apple-ios-xcframeworks",
+    libSubdir: "ios",
+    checksumKey: "apple-ios-xcframeworks",
+    xcframeworkSlices: IOS_SLICES,
+    deploymentTarget: IOS_DEPLOYMENT_TARGET,
+  },
+  {
+    name: "apple-tvos",
+    platform: "apple",
+    description: "Skia prebuilt binaries for tvOS (device + simulator)",
+    artifact: "skia-apple-tvos-xcframeworks",
+    libSubdir: "tvos",
+    checksumKey: "apple-tvos-xcframeworks",
+    xcframeworkSlices: TVOS_SLICES,
+    deploymentTarget: TVOS_DEPLOYMENT_TARGET,
+  },
+  {
+    name: "apple-macos",
+    platform: "apple",
+    description: "Skia prebuilt binaries for macOS (arm64 + x64)",
+    artifact: "skia-apple-macos-xcframeworks",
+    libSubdir: "macos",
+    checksumKey: "apple-macos-xcframeworks",
+    xcframeworkSlices: MACOS_SLICES,
+    deploymentTarget: MACOS_DEPLOYMENT_TARGET,
+  },
+  {
+    name: "linux-x64",
+    platform: "linux",
+    description: "Skia prebuilt binaries for Linux (x64)",
+    artifact: "skia-linux-x64",
+    libSubdir: "x64",
+    checksumKey: "linux-x64",
+    cpu: "x64",
+    optional: true,
+  },
+  {
+    name: "linux-arm64",
+    platform: "linux",
+    description: "Skia prebuilt binaries for Linux (arm64)",
+    artifact: "skia-linux-arm64",
+    libSubdir: "arm64",
+    checksumKey: "linux-arm64",
+    cpu: "arm64",
+    optional: true,
+  },
+  {
+    name: "windows-x64",
+    platform: "windows",
+    description: "Skia prebuilt binaries for Windows (x64)",
+    artifact: "skia-windows-x64",
+    libSubdir: "x64",
+    checksumKey: "windows-x64",
+    cpu: "x64",
+    optional: true,
+  },
+];
+
+// Package configurations for Graphite (Dawn/WebGPU backend)
+export const GRAPHITE_PACKAGES: PackageConfig[] = [
+  {
+    name: "android",
+    platform: "android",
+    description: "Skia Graphite prebuilt binaries for Android (all architectures)",
+    androidArchs: [
+      { arch: "armeabi-v7a", artifact: "skia-graphite-android-arm", srcSubdir: "arm", checksumKey: "android-armeabi-v7a" },
+      { arch: "arm64-v8a", artifact: "skia-graphite-android-arm-64", srcSubdir: "arm64", checksumKey: "android-arm64-v8a" },
+      { arch: "x86", artifact: "skia-graphite-android-arm-x86", srcSubdir: "x86", checksumKey: "android-x86" },
+      { arch: "x86_64", artifact: "skia-graphite-android-arm-x64", srcSubdir: "x64", checksumKey: "android-x86_64" },
+    ],
+  },
+  {
+    name: "apple-ios",
+    platform: "apple",
+    description: "Skia Graphite prebuilt binaries for iOS (device + simulator)",
+    artifact: "skia-graphite-apple-ios-xcframeworks",
+    libSubdir: "ios",
+    checksumKey: "apple-ios-xcframeworks",
+    xcframeworkSlices: IOS_SLICES,
+    deploymentTarget: IOS_DEPLOYMENT_TARGET,
+  },
+  {
+    name: "apple-macos",
+    platform: "apple",
+    description: "Skia Graphite prebuilt binaries for macOS (arm64 + x64)",
+    artifact: "skia-graphite-apple-macos-xcframeworks",
+    libSubdir: "macos",
+    checksumKey: "apple-macos-xcframeworks",
+    xcframeworkSlices: MACOS_SLICES,
+    deploymentTarget: MACOS_DEPLOYMENT_TARGET,
+  },
+  {
+    name: "linux-x64",
+    platform: "linux",
+    description: "Skia Graphite prebuilt binaries for Linux (x64)",
+    artifact: "skia-graphite-linux-x64",
+    libSubdir: "x64",
+    checksumKey: "linux-x64",
+    cpu: "x64",
+    optional: true,
+  },
+  {
+    name: "linux-arm64",
+    platform: "linux",
+    description: "Skia Graphite prebuilt binaries for Linux (arm64)",
+    artifact: "skia-graphite-linux-arm64",
+    libSubdir: "arm64",
+    checksumKey: "linux-arm64",
+    cpu: "arm64",
+    optional: true,
+  },
+  {
+    name: "windows-x64",
+    platform: "windows",
+    description: "Skia Graphite prebuilt binaries for Windows (x64)",
+    artifact: "skia-graphite-windows-x64",
+    libSubdir: "x64",
+    checksumKey: "windows-x64",
+    cpu: "x64",
+    optional: true,
+  },
+  {
+    name: "headers",
+    platform: "common",
+    description: "Skia Graphite headers for Dawn/WebGPU",
+    artifact: "skia-graphite-headers",
+    libSubdir: "headers",
+    checksumKey: "headers",
+  },
+];
+
+const BUILTIN_BACKEND_CONFIGS: Record<BuiltinBackend, BackendConfig> = {
+  ganesh: {
+    label: "Ganesh",
+    configKey: "skia",
+    releasePrefix: "skia",
+    packagePrefix: "skia",
+    artifactPrefix: "skia",
+    packages: GANESH_PACKAGES,
+    prune: true,
+    stripAndroid: false,
+    graphite: false,
+    manifests: {
+      android: {
+        required: ANDROID_LIBS,
+      },
+      apple: {
+        required: APPLE_XCFRAMEWORKS,
+        allow: ["*.xcframework"],
+        // Dawn is only linked by Graphite
+        deny: ["libdawn_*"],
+      },
+      linux: {
+        required: LINUX_LIBS,
+        allow: ["*.a"],
+        deny: ["libdawn_*"],
+      },
+      windows: {
+        required: WINDOWS_LIBS,
+        allow: ["*.lib"],
+        deny: ["dawn_*"],
+      },
+    },
+  },
+  graphite: {
+    label: "Graphite",
+    configKey: "skia-graphite",
+    releasePrefix: "skia-graphite",
+    packagePrefix: "skia-graphite",
+    artifactPrefix: "skia-graphite",
+    packages: GRAPHITE_PACKAGES,
+    prune: true,
+    stripAndroid: true,
+    marker: "graphite.enabled",
+    graphite: true,
+    manifests: {
+      android: {
+        required: [...ANDROID_LIBS, "libdawn_combined.a"],
+      },
+      apple: {
+        required: [...APPLE_XCFRAMEWORKS, "libdawn_combined.xcframework"],
+        allow: ["*.xcframework"],
+      },
+      linux: {
+        required: [...LINUX_LIBS, "libdawn_combined.a"],
+        allow: ["*.a"],
+      },
+      windows: {
+        required: [...WINDOWS_LIBS, "dawn_combined.lib"],
+        allow: ["*.lib"],
+      },
+    },
+  },
+};
+
+// Registered backends, in registration order: the built-ins first
+const BACKEND_CONFIGS = new Map<Backend, BackendConfig>(Object.entries(BUILTIN_BACKEND_CONFIGS));
+
+export const isBuiltinBackend = (backend: Backend): backend is BuiltinBackend =>
+  (BUILTIN_BACKENDS as Backend[]).includes(backend);
+
+/**
+ * Built-in backend whose config key is the given one, if any.
+ */
+export const findBuiltinBackend = (configKey: string): BuiltinBackend | undefined =>
+  BUILTIN_BACKENDS.find((backend) => BUILTIN_BACKEND_CONFIGS[backend].configKey === configKey);
+
+/**
+ * Rename a package's release assets from one artifact prefix to another.
+ */
+const renameArtifacts = (pkg: PackageConfig, from: string, to: string): PackageConfig => {
+  const rename = (artifact: string): string =>
+    artifact.startsWith(`${from}-`) ? `${to}${artifact.slice(from.length)}` : artifact;
+  return {
+    ...pkg,
+    ...(pkg.artifact ? { artifact: rename(pkg.artifact) } : {}),
+    ...(pkg.androidArchs
+      ? { androidArchs: pkg.androidArchs.map((arch) => ({ ...arch, artifact: rename(arch.artifact) })) }
+      : {}),
+  };
+};
+
+/**
+ * The backend a skia-config.json block defines. Blocks of the built-in config
+ * keys override the built-in; any other key derives from `extends` (default:
+ * ganesh) and is named after the key.
+ */
+export const deriveBackendConfig = (configKey: string, definition: BackendDefinition): BackendConfig => {
+  const builtin = findBuiltinBackend(configKey);
+  const base = BUILTIN_BACKEND_CONFIGS[builtin ?? definition.extends ?? "ganesh"];
+  const artifactPrefix = definition.artifactPrefix ?? base.artifactPrefix;
+  const marker = definition.marker === null ? undefined : (definition.marker ?? base.marker);
+  return {
+    ...base,
+    label: definition.label ?? (builtin ? base.label : configKey),
+    configKey,
+    releasePrefix: definition.releasePrefix ?? (builtin ? base.releasePrefix : configKey),
+    packagePrefix: definition.packagePrefix ?? (builtin ? base.packagePrefix : configKey),
+    artifactPrefix,
+    packages: base.packages.map((pkg) => renameArtifacts(pkg, base.artifactPrefix, artifactPrefix)),
+    prune: definition.prune ?? base.prune,
+    stripAndroid: definition.strip ?? base.stripAndroid,
+    marker,
+  };
+};
+
+/**
+ * Register (or redefine) a backend. Built-ins keep their name; other
+ * backends are named after their config key.
+ */
+export const registerBackend = (backendConfig: BackendConfig): Backend => {
+  const backend = findBuiltinBackend(backendConfig.configKey) ?? backendConfig.configKey;
+  BACKEND_CONFIGS.set(backend, backendConfig);
+  return backend;
+};
+
+export const getBackends = (): Backend[] => [...BACKEND_CONFIGS.keys()];
+
+const getBackendConfig = (backend: Backend): BackendConfig => {
+  const backendConfig = BACKEND_CONFIGS.get(backend);
+  if (!backendConfig) {
+    throw new Error(`Unknown backend "${backend}"`);
+  }
+  return backendConfig;
+};
+
+/**
+ * A registered backend, by name or config key (e.g. "graphite" or "skia-graphite").
+ */
+export const resolveBackend = (name: string): Backend => {
+  for (const [backend, { configKey }] of BACKEND_CONFIGS) {
+    if (name === backend || name === configKey) {
+      return backend;
+    }
+  }
+  throw new Error(`Unknown backend "${name}" (expected ${getBackends().join(", ")})`);
+};
+
+export const getBackendLabel = (backend: Backend): string =>
+  getBackendConfig(backend).label;
+
+export const getConfigKey = (backend: Backend): string =>
+  getBackendConfig(backend).configKey;
+
+export const getPackages = (backend: Backend): PackageConfig[] =>
+  getBackendConfig(backend).packages;
+
+export const isPrunedByDefault = (backend: Backend): boolean =>
+  getBackendConfig(backend).prune;
+
+export const isStrippedByDefault = (backend: Backend): boolean =>
+  getBackendConfig(backend).stripAndroid;
+
+export const getMarkerFile = (backend: Backend): string | undefined =>
+  getBackendConfig(backend).marker;
+
+export const isGraphite = (backend: Backend): boolean =>
+  getBackendConfig(backend).graphite;
+
+export const getReleaseTag = (backend: Backend, skiaVersion: string): string =>
+  `${getBackendConfig(backend).releasePrefix}-${skiaVersion}`;
+
+export const getAssetName = (artifact: string, releaseTag: string): string =>
+  `${artifact}-${releaseTag}.tar.gz`;
+
+/**
+ * Common prefix of a backend's npm package names, e.g. "react-native-skia".
+ */
+export const getPackagePrefix = (backend: Backend): string =>
+  `react-native-${getBackendConfig(backend).packagePrefix}`;
+
+export const getPackageName = (pkg: PackageConfig, backend: Backend): string =>
+  `${getPackagePrefix(backend)}-${pkg.name}`;
+
+/**
+ * Find the registry entry a generated package was built from, by npm name.
+ */
+export const findPackageByName = (
+  name: string
+): { pkg: PackageConfig; backend: Backend } | null => {
+  for (const backend of getBackends()) {
+    const pkg = getPackages(backend).find((p) => getPackageName(p, backend) === name);
+    if (pkg) {
+      return { pkg, backend };
+    }
+  }
+  return null;
+};
+
+export const getPodspecName = (pkg: PackageConfig, backend: Backend): string =>
+  `${getPackageName(pkg, backend)}.podspec`;
+
+// npm always packs these, whatever "files" says
+export const ALWAYS_PACKED = /^(package\.json|README(\..*)?|LICENSE(\..*)?)$/i;
+
+/**
+ * The "files" of a generated package.json: the entry point and the libraries,
+ * plus the podspec of Apple packages and the CMake config (and optional prefab
+ * layout) of Android packages.
+ */
+export const getPackageFiles = (
+  pkg: PackageConfig,
+  backend: Backend,
+  options: { prefab?: boolean } = {}
+): string[] => {
+  const files = ["index.js", "index.d.ts", "libs/**"];
+  if (pkg.platform === "apple") {
+    return [...files, getPodspecName(pkg, backend)];
+  }
+  if (pkg.platform === "android") {
+    return [...files, "cmake/**", ...(options.prefab ? ["prefab/**"] : [])];
+  }
+  return files;
+};
+
+/**
+ * Flattens a package into the release assets it is built from.
+ */
+export const getPackageArtifacts = (pkg: PackageConfig): ArtifactDefinition[] => {
+  if (pkg.androidArchs) {
+    return pkg.androidArchs.map((arch) => ({
+      artifact: arch.artifact,
+      srcSubdir: arch.srcSubdir,
+      destSubdir: arch.arch,
+      checksumKey: arch.checksumKey,
+    }));
+  }
+  if (pkg.artifact) {
+    return [
+      {
+        artifact: pkg.artifact,
+        srcSubdir: pkg.libSubdir ?? "",
+        destSubdir: "",
+        checksumKey: pkg.checksumKey ?? pkg.name,
+      },
+    ];
+  }
+  return [];
+};
+
+/**
+ * Whether skia-config.json pins the checksums of a package's artifacts.
+ * Headers aren't pinned: they are checked only when a checksum is configured.
+ */
+export const isChecksummed = (pkg: PackageConfig): boolean => pkg.platform !== "common";
+
+export const getLibraryManifest = (
+  pkg: PackageConfig,
+  backend: Backend
+): LibraryManifest | undefined => getBackendConfig(backend).manifests[pkg.platform];
+
+/**
+ * Libraries a package must ship for a backend: .a files in every Android ABI
+ * directory, .xcframework directories for Apple packages, or the static
+ * libraries in libs/ of Linux (.a) and Windows (.lib) packages.
+ */
+export const getRequiredLibs = (pkg: PackageConfig, backend: Backend): string[] =>
+  getLibraryManifest(pkg, backend)?.required ?? [];
+
+const matchesPattern = (name: string, pattern: string): boolean => {
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^$|()[\]{}\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`).test(name);
+};
+
+/**
+ * Whether an entry belongs in the package according to its manifest.
+ */
+export const isKeptByManifest = (manifest: LibraryManifest, name: string): boolean => {
+  if (manifest.deny?.some((pattern) => matchesPattern(name, pattern))) {
+    return false;
+  }
+  return (
+    manifest.required.includes(name) ||
+    (manifest.allow ?? []).some((pattern) => matchesPattern(name, pattern))
+  );
+};
+
+/**
+ * Apple-style slice identifier, e.g. "ios-arm64_x86_64-simulator".
+ */
+export const getSliceLabel = (slice: XcframeworkSlice): string =>
+  `${slice.platform}-${slice.architectures.join("_")}${slice.variant ? `-${slice.variant}` : ""}`;
@@ -0,0 +1,83 @@
+/**
+ * Timeouts and retry policy shared by asset downloads and GitHub API requests.
+ *
+ * Network errors, socket timeouts, 5xx responses and rate limits are retried
+ * with exponential backoff, or after the delay the server asks for
+ * (Retry-After / x-ratelimit-reset).
+ */
+
+import http from "http";
+
+export interface RetryableError extends Error {
+  statusCode?: number;
+  code?: string;
+  // Delay requested by the server (Retry-After / x-ratelimit-reset), in ms
+  retryAfterMs?: number;
+}
+
+// Abort a request when the socket has been idle this long
+export const SOCKET_TIMEOUT_MS = 60_000;
+// Never wait longer than this for a server-requested retry delay
+const MAX_RETRY_DELAY_MS = 10 * 60_000;
+
+const RETRYABLE_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "ERR_INCOMPLETE_DOWNLOAD",
+]);
+
+/**
+ * Delay requested by a Retry-After header or by GitHub's rate limit headers.
+ */
+export const getServerRetryDelay = (headers: http.IncomingHttpHeaders): number | undefined => {
+  const retryAfter = headers["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset = getRateLimitReset(headers);
+  if (reset !== undefined) {
+    return Math.max(0, reset.getTime() - Date.now());
+  }
+  return undefined;
+};
+
+/**
+ * When an exhausted GitHub rate limit resets, from x-ratelimit-reset.
+ */
+export const getRateLimitReset = (headers: http.IncomingHttpHeaders): Date | undefined => {
+  const reset = Number(headers["x-ratelimit-reset"]);
+  return headers["x-ratelimit-remaining"] === "0" && !Number.isNaN(reset)
+    ? new Date(reset * 1000)
+    : undefined;
+};
+
+export const isRetryable = (error: RetryableError): boolean => {
+  if (error.statusCode !== undefined) {
+    const isRateLimit =
+      error.statusCode === 429 ||
+      (error.statusCode === 403 && error.retryAfterMs !== undefined);
+    return isRateLimit || error.statusCode >= 500;
+  }
+  return (
+    (error.code !== undefined && RETRYABLE_CODES.has(error.code)) ||
+    error.message.includes("rate limit")
+  );
+};
+
+/**
+ * How long to wait before retry number retryCount + 1.
+ */
+export const getRetryDelay = (error: RetryableError, retryCount: number): number =>
+  Math.min(error.retryAfterMs ?? Math.pow(2, retryCount) * 1000, MAX_RETRY_DELAY_MS);
@@ -0,0 +1,185 @@
+/**
+ * Bounded-concurrency scheduling and readable output for parallel downloads.
+ *
+ * - createLimiter: runs at most N tasks at a time
+ * - createTaskLog: buffers a task's output so it is printed as one block
+ * - trackDownload: live byte progress/throughput on a TTY status line
+ */
+
+import { Args, formatBytes } from "./utils.js";
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Resolve --concurrency (default: 4).
+ */
+export const resolveConcurrency = (args: Args): number => {
+  if (args.concurrency === undefined) {
+    return DEFAULT_CONCURRENCY;
+  }
+  const concurrency = parseInt(args.concurrency as string, 10);
+  if (Number.isNaN(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency "${args.concurrency}". Expected a positive integer`);
+  }
+  return concurrency;
+};
+
+/**
+ * Like Promise.all, but waits for every task to settle before rejecting with
+ * the first error, so no task is still writing output or files afterwards.
+ */
+export const settleAll = async <T>(promises: Promise<T>[]): Promise<T[]> => {
+  const results = await Promise.allSettled(promises);
+  const failure = results.find(
+    (result): result is PromiseRejectedResult => result.status === "rejected"
+  );
+  if (failure) {
+    throw failure.reason;
+  }
+  return results.map((result) => (result as PromiseFulfilledResult<T>).value);
+};
+
+export const createLimiter = (concurrency: number): Limiter => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = (): void => {
+    if (active >= concurrency || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+};
+
+// --- Output ---
+
+const isTTY = Boolean(process.stderr.isTTY);
+
+interface ActiveDownload {
+  label: string;
+  received: number;
+  total: number | undefined;
+  startedAt: number;
+}
+
+const activeDownloads = new Set<ActiveDownload>();
+let statusVisible = false;
+let lastRender = 0;
+
+const formatRate = (bytes: number, ms: number): string =>
+  `${formatBytes(ms > 0 ? (bytes * 1000) / ms : 0)}/s`;
+
+const clearStatus = (): void => {
+  if (statusVisible) {
+    process.stderr.write("\r\x1b[K");
+    statusVisible = false;
+  }
+};
+
+const renderStatus = (force = false): void => {
+  if (!isTTY) return;
+  const now = Date.now();
+  if (!force && now - lastRender < 200) return;
+  lastRender = now;
+
+  clearStatus();
+  if (activeDownloads.size === 0) return;
+
+  const parts = [...activeDownloads].map((download) => {
+    const percent = download.total
+      ? ` ${Math.floor((download.received / download.total) * 100)}%`
+      : ` ${formatBytes(download.received)}`;
+    return `${download.label}${percent} ${formatRate(download.received, now - download.startedAt)}`;
+  });
+  const line = `  [${activeDownloads.size} active] ${parts.join(" | ")}`;
+  const width = process.stderr.columns || 120;
+  process.stderr.write(line.length > width ? `${line.slice(0, width - 1)}…` : line);
+  statusVisible = true;
+};
+
+/**
+ * Print lines without tearing the progress status line.
+ */
+export const writeLines = (lines: string[]): void => {
+  if (lines.length === 0) return;
+  clearStatus();
+  for (const line of lines) {
+    console.log(line);
+  }
+  renderStatus(true);
+};
+
+export const logLine = (message: string): void => writeLines([message]);
+
+export interface TaskLog {
+  log: (message: string) => void;
+  // Print buffered output; no-op when not buffering
+  flush: () => void;
+}
+
+/**
+ * Output for one task. Buffered logs are held until flush() so that tasks
+ * running in parallel print as contiguous blocks instead of interleaved lines.
+ */
+export const createTaskLog = (buffered: boolean): TaskLog => {
+  if (!buffered) {
+    return { log: logLine, flush: () => {} };
+  }
+  let lines: string[] = [];
+  return {
+    log: (message) => {
+      lines.push(message);
+    },
+    flush: () => {
+      writeLines(lines);
+      lines = [];
+    },
+  };
+};
+
+export interface DownloadProgress {
+  update: (received: number, total: number | undefined) => void;
+  // Removes the download from the status line and returns a size/throughput summary
+  finish: () => string;
+}
+
+export const trackDownload = (label: string): DownloadProgress => {
+  const download: ActiveDownload = {
+    label,
+    received: 0,
+    total: undefined,
+    startedAt: Date.now(),
+  };
+  activeDownloads.add(download);
+
+  return {
+    update: (received, total) => {
+      download.received = received;
+      download.total = total;
+      renderStatus();
+    },
+    finish: () => {
+      activeDownloads.delete(download);
+      renderStatus(true);
+      const elapsed = Date.now() - download.startedAt;
+      return `${formatBytes(download.received)} in ${(elapsed / 1000).toFixed(1)}s (${formatRate(
+        download.received,
+        elapsed
+      )})`;
+    },
+  };
+};
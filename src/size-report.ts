@@ -0,0 +1,301 @@
+/**
+ * Size breakdown of generated packages and size budget checks.
+ *
+ * Every package is measured per arch (Android ABI, xcframework slice for Apple
+ * packages, CPU for Linux and Windows packages) and per library, both raw and
+ * gzip-compressed. Gzip sizes are the sum of each file compressed on its own, a
+ * close estimate of the npm tarball.
+ *
+ * Totals cover every file npm pack publishes: what the package.json "files"
+ * names (libs/, the entry point, podspec, CMake config, prefab layout) plus
+ * package.json and README. Everything outside libs/ is listed as "other".
+ *
+ * Budgets are configured per backend in skia-config.json, keyed by package
+ * name ("android", "apple-ios", ...) or "*" for every package:
+ *
+ *   "sizeBudgets": {
+ *     "*": { "maxGrowthPercent": 10 },
+ *     "android": { "maxGzipBytes": 150000000 }
+ *   }
+ */
+
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import zlib from "zlib";
+import { ALWAYS_PACKED, PackageConfig, isDesktopPlatform } from "./registry.js";
+import { formatBytes } from "./utils.js";
+
+export const SIZE_REPORT_FILE = "size-report.json";
+export const SIZE_REPORT_MARKDOWN_FILE = "size-report.md";
+
+export interface SizeEntry {
+  name: string;
+  raw: number;
+  gzip: number;
+}
+
+export interface ArchSize extends SizeEntry {
+  libraries: SizeEntry[];
+}
+
+export interface PackageSizeReport extends SizeEntry {
+  version: string;
+  archs: ArchSize[];
+}
+
+export interface SizeReport {
+  packages: PackageSizeReport[];
+}
+
+export interface SizeBudget {
+  // Limits on the total size of the published files
+  maxBytes?: number;
+  maxGzipBytes?: number;
+  // Allowed raw growth compared with the previous report
+  maxGrowthPercent?: number;
+}
+
+/**
+ * Compressed size of a file, streamed so large libraries are never held in memory.
+ */
+const gzipSize = async (file: string): Promise<number> => {
+  let size = 0;
+  await pipeline(fs.createReadStream(file), zlib.createGzip(), async (compressed) => {
+    for await (const chunk of compressed) {
+      size += (chunk as Buffer).length;
+    }
+  });
+  return size;
+};
+
+const measure = async (target: string): Promise<{ raw: number; gzip: number }> => {
+  const stat = fs.lstatSync(target);
+  if (stat.isDirectory()) {
+    let raw = 0;
+    let gzip = 0;
+    for (const name of fs.readdirSync(target)) {
+      const size = await measure(path.join(target, name));
+      raw += size.raw;
+      gzip += size.gzip;
+    }
+    return { raw, gzip };
+  }
+  if (stat.isFile()) {
+    return { raw: stat.size, gzip: await gzipSize(target) };
+  }
+  // Symlinks are stored as links in the tarball
+  return { raw: stat.size, gzip: stat.size };
+};
+
+const measureEntries = async (dir: string, names: string[]): Promise<SizeEntry[]> => {
+  const entries: SizeEntry[] = [];
+  for (const name of names) {
+    entries.push({ name, ...(await measure(path.join(dir, name))) });
+  }
+  return entries;
+};
+
+const toArch = (name: string, libraries: SizeEntry[]): ArchSize => ({
+  name,
+  raw: libraries.reduce((total, lib) => total + lib.raw, 0),
+  gzip: libraries.reduce((total, lib) => total + lib.gzip, 0),
+  libraries,
+});
+
+/**
+ * Top-level entries npm pack publishes: those the "files" patterns name
+ * ("libs/**" → libs) plus package.json, README and LICENSE.
+ */
+const listPackedEntries = (pkgDir: string, files: string[]): string[] => {
+  const named = files.map((file) => file.replace(/\/\*\*$/, ""));
+  const always = fs.readdirSync(pkgDir).filter((name) => ALWAYS_PACKED.test(name));
+  return [...new Set([...named, ...always])]
+    .filter((name) => fs.existsSync(path.join(pkgDir, name)))
+    .sort();
+};
+
+/**
+ * Measure the files a generated package publishes, given its package.json
+ * "files", broken down by arch for libs/.
+ */
+export const measurePackage = async (
+  pkgDir: string,
+  pkg: PackageConfig,
+  packageName: string,
+  version: string,
+  files: string[]
+): Promise<PackageSizeReport> => {
+  const libsDir = path.join(pkgDir, "libs");
+  const archs: ArchSize[] = [];
+
+  if (pkg.platform === "android") {
+    for (const { arch } of pkg.androidArchs ?? []) {
+      const archDir = path.join(libsDir, arch);
+      if (!fs.existsSync(archDir)) continue;
+      archs.push(toArch(arch, await measureEntries(archDir, fs.readdirSync(archDir).sort())));
+    }
+  } else if (pkg.platform === "apple") {
+    // Group each xcframework's slices by slice identifier
+    const slices = new Map<string, SizeEntry[]>();
+    for (const xcframework of fs.readdirSync(libsDir).sort()) {
+      const xcframeworkDir = path.join(libsDir, xcframework);
+      if (!xcframework.endsWith(".xcframework") || !fs.statSync(xcframeworkDir).isDirectory()) {
+        continue;
+      }
+      for (const slice of fs.readdirSync(xcframeworkDir, { withFileTypes: true })) {
+        if (!slice.isDirectory()) continue;
+        const libraries = slices.get(slice.name) ?? [];
+        libraries.push({
+          name: xcframework,
+          ...(await measure(path.join(xcframeworkDir, slice.name))),
+        });
+        slices.set(slice.name, libraries);
+      }
+    }
+    for (const [slice, libraries] of [...slices].sort(([a], [b]) => a.localeCompare(b))) {
+      archs.push(toArch(slice, libraries));
+    }
+  } else if (isDesktopPlatform(pkg.platform) && fs.existsSync(libsDir)) {
+    const libraries = await measureEntries(libsDir, fs.readdirSync(libsDir).sort());
+    archs.push(toArch(pkg.cpu ?? "libs", libraries));
+  } else if (fs.existsSync(libsDir)) {
+    archs.push(toArch("libs", await measureEntries(libsDir, fs.readdirSync(libsDir).sort())));
+  }
+
+  const packed = listPackedEntries(pkgDir, files);
+  const libs = packed.includes("libs") ? await measure(libsDir) : { raw: 0, gzip: 0 };
+  const other = toArch(
+    "other",
+    await measureEntries(pkgDir, packed.filter((name) => name !== "libs"))
+  );
+  if (other.libraries.length > 0) {
+    archs.push(other);
+  }
+
+  return {
+    name: packageName,
+    version,
+    raw: libs.raw + other.raw,
+    gzip: libs.gzip + other.gzip,
+    archs,
+  };
+};
+
+/**
+ * Budget for a package: the "*" budget overridden by the package's own.
+ */
+export const resolveSizeBudget = (
+  budgets: Record<string, SizeBudget> | undefined,
+  pkg: PackageConfig
+): SizeBudget | undefined => {
+  if (!budgets || (!budgets["*"] && !budgets[pkg.name])) {
+    return undefined;
+  }
+  return { ...budgets["*"], ...budgets[pkg.name] };
+};
+
+/**
+ * Returns a message for every budget the package exceeds.
+ */
+export const checkSizeBudget = (
+  report: PackageSizeReport,
+  budget: SizeBudget | undefined,
+  previous: SizeReport | undefined
+): string[] => {
+  const violations: string[] = [];
+  if (!budget) {
+    return violations;
+  }
+
+  if (budget.maxBytes !== undefined && report.raw > budget.maxBytes) {
+    violations.push(
+      `${formatBytes(report.raw)} exceeds the ${formatBytes(budget.maxBytes)} size budget`
+    );
+  }
+  if (budget.maxGzipBytes !== undefined && report.gzip > budget.maxGzipBytes) {
+    violations.push(
+      `${formatBytes(report.gzip)} gzipped exceeds the ${formatBytes(budget.maxGzipBytes)} gzip budget`
+    );
+  }
+
+  const before = previous?.packages.find((p) => p.name === report.name);
+  if (budget.maxGrowthPercent !== undefined && before && before.raw > 0) {
+    const growth = ((report.raw - before.raw) / before.raw) * 100;
+    if (growth > budget.maxGrowthPercent) {
+      violations.push(
+        `grew ${growth.toFixed(1)}% since ${before.version} (${formatBytes(before.raw)} → ` +
+          `${formatBytes(report.raw)}), more than the allowed ${budget.maxGrowthPercent}%`
+      );
+    }
+  }
+
+  return violations;
+};
+
+export const readSizeReport = (reportPath: string): SizeReport => {
+  if (!fs.existsSync(reportPath)) {
+    throw new Error(`Size report not found: ${reportPath}`);
+  }
+  return JSON.parse(fs.readFileSync(reportPath, "utf8")) as SizeReport;
+};
+
+const formatChange = (current: number, before: number | undefined): string => {
+  if (before === undefined) return "new";
+  if (before === 0) return "-";
+  const change = ((current - before) / before) * 100;
+  return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`;
+};
+
+export const formatSizeReportMarkdown = (
+  report: SizeReport,
+  previous?: SizeReport
+): string => {
+  const lines: string[] = ["# Package Sizes", ""];
+
+  lines.push(`| Package | Version | Raw | Gzip |${previous ? " Change |" : ""}`);
+  lines.push(`|---------|---------|----:|-----:|${previous ? "-------:|" : ""}`);
+  for (const pkg of report.packages) {
+    const before = previous?.packages.find((p) => p.name === pkg.name);
+    const change = previous ? ` ${formatChange(pkg.raw, before?.raw)} |` : "";
+    lines.push(
+      `| ${pkg.name} | ${pkg.version} | ${formatBytes(pkg.raw)} | ${formatBytes(pkg.gzip)} |${change}`
+    );
+  }
+
+  for (const pkg of report.packages) {
+    lines.push("", `## ${pkg.name}`, "");
+    lines.push("| Arch | Library | Raw | Gzip |");
+    lines.push("|------|---------|----:|-----:|");
+    for (const arch of pkg.archs) {
+      for (const lib of arch.libraries) {
+        lines.push(`| ${arch.name} | ${lib.name} | ${formatBytes(lib.raw)} | ${formatBytes(lib.gzip)} |`);
+      }
+      lines.push(
+        `| ${arch.name} | **total** | **${formatBytes(arch.raw)}** | **${formatBytes(arch.gzip)}** |`
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * Write <outputDir>/size-report.json and size-report.md.
+ */
+export const writeSizeReport = (
+  outputDir: string,
+  packages: PackageSizeReport[],
+  previous?: SizeReport
+): void => {
+  const report: SizeReport = { packages };
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(outputDir, SIZE_REPORT_FILE),
+    JSON.stringify(report, null, 2) + "\n"
+  );
+  fs.writeFileSync(
+    path.join(outputDir, SIZE_REPORT_MARKDOWN_FILE),
+    formatSizeReportMarkdown(report, previous)
+  );
+};
@@ -0,0 +1,140 @@
+/**
+ * Stripping debug symbols from Android static libraries with llvm-strip.
+ *
+ * The strip tool is resolved, in order, from:
+ * 1. --strip-tool (a path, or a command name looked up on PATH)
+ * 2. llvm-strip on PATH, then the highest llvm-strip-NN on PATH
+ * 3. The Android NDK under ANDROID_NDK_HOME or ANDROID_HOME
+ */
+
+import fs from "fs";
+import path from "path";
+import { formatBytes, runCommand } from "./utils.js";
+
+const EXECUTABLE_SUFFIX = process.platform === "win32" ? ".exe" : "";
+
+const getPathDirs = (): string[] =>
+  (process.env.PATH ?? "").split(path.delimiter).filter(Boolean);
+
+const isFile = (candidate: string): boolean => {
+  try {
+    return fs.statSync(candidate).isFile();
+  } catch {
+    return false;
+  }
+};
+
+const findOnPath = (command: string): string | null => {
+  for (const dir of getPathDirs()) {
+    const candidate = path.join(dir, command + EXECUTABLE_SUFFIX);
+    if (isFile(candidate)) return candidate;
+  }
+  return null;
+};
+
+/**
+ * The llvm-strip-NN with the highest version on PATH (as installed by distro LLVM packages).
+ */
+const findVersionedOnPath = (): string | null => {
+  const pattern = new RegExp(`^llvm-strip-(\\d+)${EXECUTABLE_SUFFIX.replace(".", "\\.")}$`);
+  let best: { path: string; version: number } | null = null;
+  for (const dir of getPathDirs()) {
+    if (!fs.existsSync(dir)) continue;
+    for (const name of fs.readdirSync(dir)) {
+      const match = pattern.exec(name);
+      const candidate = path.join(dir, name);
+      if (match && (!best || Number(match[1]) > best.version) && isFile(candidate)) {
+        best = { path: candidate, version: Number(match[1]) };
+      }
+    }
+  }
+  return best?.path ?? null;
+};
+
+const findNdkStripTool = (): string | null => {
+  const ndkPaths: string[] = [];
+
+  if (process.env.ANDROID_NDK_HOME) {
+    ndkPaths.push(process.env.ANDROID_NDK_HOME);
+  }
+
+  const androidHome = process.env.ANDROID_HOME;
+  if (androidHome) {
+    const ndkDir = path.join(androidHome, "ndk");
+    if (fs.existsSync(ndkDir)) {
+      const versions = fs.readdirSync(ndkDir).sort().reverse();
+      for (const version of versions) {
+        ndkPaths.push(path.join(ndkDir, version));
+      }
+    }
+  }
+
+  for (const ndkPath of ndkPaths) {
+    const prebuiltDir = path.join(ndkPath, "toolchains", "llvm", "prebuilt");
+    if (!fs.existsSync(prebuiltDir)) continue;
+    const platforms = fs.readdirSync(prebuiltDir);
+    for (const platform of platforms) {
+      const stripPath = path.join(prebuiltDir, platform, "bin", "llvm-strip" + EXECUTABLE_SUFFIX);
+      if (fs.existsSync(stripPath)) return stripPath;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Resolve the strip tool. Throws if an explicit --strip-tool doesn't exist or
+ * if no tool can be found.
+ */
+export const resolveStripTool = (explicit?: string): string => {
+  if (explicit) {
+    const resolved = explicit.includes("/") || explicit.includes("\\")
+      ? (isFile(explicit) ? explicit : null)
+      : findOnPath(explicit);
+    if (!resolved) {
+      throw new Error(`Strip tool not found: ${explicit}`);
+    }
+    return resolved;
+  }
+
+  const found = findOnPath("llvm-strip") ?? findVersionedOnPath() ?? findNdkStripTool();
+  if (!found) {
+    throw new Error(
+      "Could not find llvm-strip. Put llvm-strip on PATH, pass --strip-tool=<path>, " +
+        "set ANDROID_NDK_HOME or ANDROID_HOME, or pass --no-strip."
+    );
+  }
+  return found;
+};
+
+/**
+ * Strip debug symbols from every .a in the given ABI directories, logging the
+ * size of each library before and after.
+ */
+export const stripDebugSymbols = async (
+  archDirs: string[],
+  stripTool: string,
+  log: (message: string) => void
+): Promise<void> => {
+  log(`    Using strip tool: ${stripTool}`);
+
+  for (const archDir of archDirs) {
+    if (!fs.existsSync(archDir)) continue;
+    const files = fs.readdirSync(archDir).filter((f) => f.endsWith(".a")).sort();
+    let totalBefore = 0;
+    let totalAfter = 0;
+    log(`    Stripping ${path.basename(archDir)}:`);
+    for (const file of files) {
+      const libPath = path.join(archDir, file);
+      const before = fs.statSync(libPath).size;
+      await runCommand(stripTool, ["--strip-debug", libPath]);
+      const after = fs.statSync(libPath).size;
+      totalBefore += before;
+      totalAfter += after;
+      log(`      ${file}: ${formatBytes(before)} → ${formatBytes(after)}`);
+    }
+    log(
+      `      Total: ${formatBytes(totalBefore)} → ${formatBytes(totalAfter)} (${files.length} libs)`
+    );
+  }
+};
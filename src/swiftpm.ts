@@ -0,0 +1,222 @@
+/**
+ * Swift Package Manager manifests for the Apple packages.
+ *
+ * Each xcframework becomes a `.binaryTarget` pointing at a zip of it, with
+ * the checksum SwiftPM verifies (`swift package compute-checksum`, the
+ * SHA-256 of the zip). Each Apple package becomes a library product.
+ *
+ * validatePackageSwift checks a generated manifest without a Swift toolchain.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { DeploymentTarget } from "./registry.js";
+
+export const SWIFT_TOOLS_VERSION = "5.6";
+
+const SWIFTPM_PLATFORMS: Record<DeploymentTarget["platform"], string> = {
+  ios: "iOS",
+  tvos: "tvOS",
+  osx: "macOS",
+};
+
+export interface BinaryTarget {
+  name: string;
+  url: string;
+  checksum: string;
+}
+
+export interface LibraryProduct {
+  name: string;
+  targets: string[];
+}
+
+export interface SwiftPackage {
+  name: string;
+  // Header comment, e.g. the Skia version the package was built from
+  comment: string;
+  platforms: DeploymentTarget[];
+  products: LibraryProduct[];
+  targets: BinaryTarget[];
+}
+
+/**
+ * SwiftPM checksum of an archive: the hex SHA-256 of its bytes.
+ */
+export const computeSwiftpmChecksum = (zipPath: string): string =>
+  crypto.createHash("sha256").update(fs.readFileSync(zipPath)).digest("hex");
+
+/**
+ * A valid Swift identifier for a target, e.g. libskia.xcframework + ios → libskia_ios.
+ */
+export const getBinaryTargetName = (xcframework: string, suffix: string): string =>
+  `${xcframework.replace(/\.xcframework$/, "")}_${suffix}`.replace(/[^A-Za-z0-9_]/g, "_");
+
+const quote = (value: string): string => JSON.stringify(value);
+
+export const generatePackageSwift = (pkg: SwiftPackage): string => {
+  const platforms = pkg.platforms.map(
+    (target) => `        .${SWIFTPM_PLATFORMS[target.platform]}(${quote(target.version)}),`
+  );
+  const products = pkg.products.map(
+    (product) => `        .library(
+            name: ${quote(product.name)},
+            targets: [
+${product.targets.map((target) => `                ${quote(target)},`).join("\n")}
+            ]
+        ),`
+  );
+  const targets = pkg.targets.map(
+    (target) => `        .binaryTarget(
+            name: ${quote(target.name)},
+            url: ${quote(target.url)},
+            checksum: ${quote(target.checksum)}
+        ),`
+  );
+
+  return `// swift-tools-version:${SWIFT_TOOLS_VERSION}
+// ${pkg.comment}
+
+import PackageDescription
+
+let package = Package(
+    name: ${quote(pkg.name)},
+    platforms: [
+${platforms.join("\n")}
+    ],
+    products: [
+${products.join("\n")}
+    ],
+    targets: [
+${targets.join("\n")}
+    ]
+)
+`;
+};
+
+/**
+ * Check that brackets are balanced and string literals terminated, skipping
+ * comments.
+ */
+const checkSyntax = (content: string, problems: string[]): void => {
+  const closers: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+  const stack: { char: string; line: number }[] = [];
+  let line = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === "\n") {
+      line++;
+    } else if (content.startsWith("//", i)) {
+      const end = content.indexOf("\n", i);
+      i = (end === -1 ? content.length : end) - 1;
+    } else if (char === '"') {
+      const start = line;
+      i++;
+      while (i < content.length && content[i] !== '"' && content[i] !== "\n") {
+        if (content[i] === "\\") i++;
+        i++;
+      }
+      if (content[i] !== '"') {
+        problems.push(`line ${start}: unterminated string literal`);
+        return;
+      }
+    } else if (char === "(" || char === "[" || char === "{") {
+      stack.push({ char, line });
+    } else if (char in closers) {
+      const open = stack.pop();
+      if (!open || open.char !== closers[char]) {
+        problems.push(`line ${line}: unbalanced "${char}"`);
+        return;
+      }
+    }
+  }
+  for (const open of stack) {
+    problems.push(`line ${open.line}: unclosed "${open.char}"`);
+  }
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const SHA256 = /^[0-9a-f]{64}$/;
+
+/**
+ * Validate a generated Package.swift: its syntax, target names, checksums and
+ * product references. When zipDir is given, every target's zip must exist
+ * there (named after the last URL segment) and match its checksum.
+ * Returns a list of problems.
+ */
+export const validatePackageSwift = (content: string, zipDir?: string): string[] => {
+  const problems: string[] = [];
+
+  if (!/^\/\/ swift-tools-version:\s*\d+\.\d+(\.\d+)?\n/.test(content)) {
+    problems.push("line 1: missing // swift-tools-version");
+  }
+  if (!content.includes("import PackageDescription")) {
+    problems.push("missing import PackageDescription");
+  }
+  if (!/let package = Package\(/.test(content)) {
+    problems.push("missing let package = Package(...)");
+  }
+  checkSyntax(content, problems);
+
+  const targetPattern =
+    /\.binaryTarget\(\s*name:\s*"([^"]*)",\s*url:\s*"([^"]*)",\s*checksum:\s*"([^"]*)"\s*\)/g;
+  const targets = [...content.matchAll(targetPattern)].map((match) => ({
+    name: match[1],
+    url: match[2],
+    checksum: match[3],
+  }));
+  const declared = (content.match(/\.binaryTarget\(/g) ?? []).length;
+  if (declared !== targets.length) {
+    problems.push(`${declared - targets.length} .binaryTarget(s) are not (name:, url:, checksum:)`);
+  }
+
+  const names = new Set<string>();
+  for (const target of targets) {
+    if (!IDENTIFIER.test(target.name)) {
+      problems.push(`${target.name}: not a valid target name`);
+    }
+    if (names.has(target.name)) {
+      problems.push(`${target.name}: declared more than once`);
+    }
+    names.add(target.name);
+    if (!/^https:\/\/\S+\.zip$/.test(target.url)) {
+      problems.push(`${target.name}: url must be an https URL to a .zip, got ${target.url}`);
+    }
+    if (!SHA256.test(target.checksum)) {
+      problems.push(`${target.name}: checksum is not a SHA-256 hex digest`);
+      continue;
+    }
+    if (zipDir) {
+      const zipPath = path.join(zipDir, decodeURIComponent(target.url.split("/").pop() ?? ""));
+      if (!fs.existsSync(zipPath)) {
+        problems.push(`${target.name}: ${path.basename(zipPath)} not found`);
+      } else if (computeSwiftpmChecksum(zipPath) !== target.checksum) {
+        problems.push(`${target.name}: checksum does not match ${path.basename(zipPath)}`);
+      }
+    }
+  }
+
+  const productPattern = /\.library\(\s*name:\s*"([^"]*)",\s*targets:\s*\[([^\]]*)\]\s*\)/g;
+  const used = new Set<string>();
+  for (const match of content.matchAll(productPattern)) {
+    const productTargets = [...match[2].matchAll(/"([^"]*)"/g)].map((target) => target[1]);
+    if (productTargets.length === 0) {
+      problems.push(`product ${match[1]}: no targets`);
+    }
+    for (const target of productTargets) {
+      used.add(target);
+      if (!names.has(target)) {
+        problems.push(`product ${match[1]}: unknown target ${target}`);
+      }
+    }
+  }
+  for (const name of names) {
+    if (!used.has(name)) {
+      problems.push(`${name}: not part of any product`);
+    }
+  }
+
+  return problems;
+};
@@ -0,0 +1,357 @@
+/**
+ * Streaming .tar.gz extraction in TypeScript, on top of node:zlib.
+ *
+ * Supports the ustar format plus the pax ("x"/"g") and GNU long name ("L"/"K")
+ * extensions used by common tar implementations. Regular files keep their
+ * permission bits, symlinks are recreated as symlinks (xcframeworks rely on
+ * them), and hard links are materialized as copies.
+ *
+ * Entries that would land outside the destination are rejected: absolute
+ * paths, ".." segments, symlinks pointing outside the destination and paths
+ * that go through an already extracted symlink.
+ */
+
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+
+const BLOCK_SIZE = 512;
+
+interface TarHeader {
+  name: string;
+  mode: number;
+  size: number;
+  type: string;
+  linkname: string;
+}
+
+const readString = (block: Buffer, offset: number, length: number): string => {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf8");
+};
+
+const readNumber = (block: Buffer, offset: number, length: number): number => {
+  // GNU base-256 encoding for values that don't fit in octal
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + block[offset + i];
+    }
+    return value;
+  }
+  const text = readString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+};
+
+const isZeroBlock = (block: Buffer): boolean => block.every((byte) => byte === 0);
+
+const verifyHeaderChecksum = (block: Buffer): boolean => {
+  const expected = readNumber(block, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return sum === expected;
+};
+
+const parseHeader = (block: Buffer): TarHeader => {
+  const name = readString(block, 0, 100);
+  const prefix = readString(block, 345, 155);
+  const isUstar = readString(block, 257, 6).startsWith("ustar");
+  return {
+    name: isUstar && prefix ? `${prefix}/${name}` : name,
+    mode: readNumber(block, 100, 8),
+    size: readNumber(block, 124, 12),
+    type: String.fromCharCode(block[156] || 0x30),
+    linkname: readString(block, 157, 100),
+  };
+};
+
+/**
+ * Parse pax extended header records ("<length> <key>=<value>\n").
+ */
+const parsePaxRecords = (data: Buffer): Record<string, string> => {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString("utf8"), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString("utf8");
+    const eq = record.indexOf("=");
+    if (eq !== -1) {
+      records[record.slice(0, eq)] = record.slice(eq + 1);
+    }
+    offset += length;
+  }
+  return records;
+};
+
+const isInside = (root: string, target: string): boolean =>
+  target === root || target.startsWith(root + path.sep);
+
+/**
+ * Resolve an entry name to a path inside destDir, rejecting path traversal.
+ */
+const resolveEntryPath = (destDir: string, name: string): string => {
+  const normalized = name.replace(/\\/g, "/");
+  if (normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized)) {
+    throw new Error("absolute paths are not allowed");
+  }
+  if (normalized.split("/").includes("..")) {
+    throw new Error("path traversal ('..') is not allowed");
+  }
+  const target = path.resolve(destDir, normalized);
+  if (!isInside(destDir, target)) {
+    throw new Error("path escapes the destination directory");
+  }
+  return target;
+};
+
+/**
+ * Make sure no existing parent of target is a symlink, so an entry can't be
+ * written through a link planted by an earlier entry.
+ */
+const assertNoSymlinkParents = (destDir: string, target: string): void => {
+  let current = path.dirname(target);
+  while (isInside(destDir, current) && current !== destDir) {
+    if (fs.existsSync(current) && fs.lstatSync(current).isSymbolicLink()) {
+      throw new Error(`parent ${path.relative(destDir, current)} is a symlink`);
+    }
+    current = path.dirname(current);
+  }
+};
+
+const isSymlink = (target: string): boolean => {
+  try {
+    return fs.lstatSync(target).isSymbolicLink();
+  } catch {
+    return false;
+  }
+};
+
+// Same limit as Linux's MAXSYMLINKS
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Resolve a symlink target against what's already on disk, following links
+ * extracted by earlier entries, and make sure every step stays inside destDir.
+ * Resolving the string alone isn't enough: with "a -> .", "a/a/../../x" looks
+ * like it stays inside but ends up one level above destDir.
+ */
+const resolveLinkTarget = (destDir: string, dir: string, linkname: string, depth = 0): string => {
+  let current = dir;
+  for (const part of linkname.split(/[\\/]/)) {
+    if (part === "" || part === ".") {
+      continue;
+    }
+    let next = part === ".." ? path.dirname(current) : path.join(current, part);
+    if (part !== ".." && isSymlink(next)) {
+      if (depth >= MAX_SYMLINK_DEPTH) {
+        throw new Error(`too many levels of symlinks resolving "${linkname}"`);
+      }
+      next = resolveLinkTarget(destDir, path.dirname(next), fs.readlinkSync(next), depth + 1);
+    }
+    if (!isInside(destDir, next)) {
+      throw new Error(`symlink target "${linkname}" escapes the destination directory`);
+    }
+    current = next;
+  }
+  return current;
+};
+
+const removeExisting = (target: string): void => {
+  try {
+    const stat = fs.lstatSync(target);
+    if (!stat.isDirectory()) {
+      fs.rmSync(target, { force: true });
+    }
+  } catch {
+    // Nothing there
+  }
+};
+
+/**
+ * Extracts a .tar.gz archive into destDir.
+ */
+export const extractTarGz = async (archivePath: string, destDir: string): Promise<void> => {
+  fs.mkdirSync(destDir, { recursive: true });
+  const root = fs.realpathSync(destDir);
+
+  const input = fs.createReadStream(archivePath);
+  const gunzip = zlib.createGunzip();
+  input.on("error", (error) => gunzip.destroy(error));
+  input.pipe(gunzip);
+
+  let pending: Buffer = Buffer.alloc(0);
+  let header: TarHeader | null = null;
+  let remaining = 0;
+  let padding = 0;
+  let fd: number | null = null;
+  // Data of pax / GNU long name entries, which describe the next entry
+  let metaChunks: Buffer[] | null = null;
+  let paxOverrides: Record<string, string> = {};
+  let longName: string | null = null;
+  let longLinkName: string | null = null;
+  let ended = false;
+  let currentName = "";
+
+  const startEntry = (entry: TarHeader): void => {
+    const name = paxOverrides.path ?? longName ?? entry.name;
+    const linkname = paxOverrides.linkpath ?? longLinkName ?? entry.linkname;
+    const size = paxOverrides.size !== undefined ? Number(paxOverrides.size) : entry.size;
+    paxOverrides = {};
+    longName = null;
+    longLinkName = null;
+    currentName = name;
+
+    header = { ...entry, name, linkname, size };
+    remaining = size;
+    padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+
+    switch (entry.type) {
+      case "x":
+      case "g":
+      case "L":
+      case "K":
+        metaChunks = [];
+        return;
+    }
+
+    // Skip the "./" root entry some tar implementations emit
+    if (name.replace(/\/+$/, "") === "." || name === "") {
+      return;
+    }
+
+    const target = resolveEntryPath(root, name);
+    assertNoSymlinkParents(root, target);
+
+    switch (entry.type) {
+      case "0":
+      case "7": {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        removeExisting(target);
+        fd = fs.openSync(target, "w");
+        break;
+      }
+      case "5":
+        fs.mkdirSync(target, { recursive: true });
+        break;
+      case "2": {
+        if (path.isAbsolute(linkname) || /^[a-zA-Z]:/.test(linkname)) {
+          throw new Error(`symlink target "${linkname}" is absolute`);
+        }
+        resolveLinkTarget(root, path.dirname(target), linkname);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        removeExisting(target);
+        fs.symlinkSync(linkname, target);
+        break;
+      }
+      case "1": {
+        const source = resolveEntryPath(root, linkname);
+        if (!fs.existsSync(source)) {
+          throw new Error(`hard link target "${linkname}" has not been extracted`);
+        }
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        removeExisting(target);
+        fs.copyFileSync(source, target);
+        fs.chmodSync(target, fs.statSync(source).mode & 0o777);
+        break;
+      }
+      default:
+        // Devices, FIFOs and other special files are not extracted
+        break;
+    }
+  };
+
+  const finishEntry = (): void => {
+    const entry = header!;
+    if (fd !== null) {
+      fs.closeSync(fd);
+      fd = null;
+      fs.chmodSync(resolveEntryPath(root, entry.name), entry.mode & 0o777);
+    }
+    if (metaChunks) {
+      const data = Buffer.concat(metaChunks);
+      metaChunks = null;
+      if (entry.type === "x") {
+        paxOverrides = parsePaxRecords(data);
+      } else if (entry.type === "L") {
+        longName = readString(data, 0, data.length);
+      } else if (entry.type === "K") {
+        longLinkName = readString(data, 0, data.length);
+      }
+    }
+    header = null;
+  };
+
+  const consume = (): void => {
+    while (!ended) {
+      if (header === null) {
+        if (padding > 0) {
+          const skip = Math.min(padding, pending.length);
+          pending = pending.subarray(skip);
+          padding -= skip;
+          if (padding > 0) return;
+        }
+        if (pending.length < BLOCK_SIZE) return;
+
+        const block = pending.subarray(0, BLOCK_SIZE);
+        pending = pending.subarray(BLOCK_SIZE);
+        if (isZeroBlock(block)) {
+          ended = true;
+          return;
+        }
+        if (!verifyHeaderChecksum(block)) {
+          currentName = readString(block, 0, 100);
+          throw new Error("invalid header checksum (corrupt archive?)");
+        }
+        const entry = parseHeader(block);
+        currentName = entry.name;
+        startEntry(entry);
+        if (remaining === 0) {
+          finishEntry();
+        }
+        continue;
+      }
+
+      if (pending.length === 0) return;
+      const chunk = pending.subarray(0, Math.min(remaining, pending.length));
+      pending = pending.subarray(chunk.length);
+      remaining -= chunk.length;
+      if (fd !== null) {
+        fs.writeSync(fd, chunk);
+      } else if (metaChunks) {
+        metaChunks.push(Buffer.from(chunk));
+      }
+      if (remaining === 0) {
+        finishEntry();
+      }
+    }
+  };
+
+  try {
+    for await (const chunk of gunzip) {
+      pending = pending.length ? Buffer.concat([pending, chunk as Buffer]) : (chunk as Buffer);
+      consume();
+      if (ended) break;
+    }
+    if (!ended && (header !== null || pending.length > 0)) {
+      throw new Error("unexpected end of archive");
+    }
+  } catch (error) {
+    const entry = currentName ? ` at entry "${currentName}"` : "";
+    throw new Error(
+      `Failed to extract ${path.basename(archivePath)}${entry}: ${(error as Error).message}`
+    );
+  } finally {
+    if (fd !== null) {
+      fs.closeSync(fd);
+    }
+    input.destroy();
+    gunzip.destroy();
+  }
+};
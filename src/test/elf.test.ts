@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import {
+  checkAndroidArchive,
+  checkLinuxArchive,
+  checkWindowsArchive,
+  readArchiveMembers,
+} from "../elf.js";
+import { ArMember, buildAr, coffImportObject, coffObject, createTempDir, elfObject } from "./fixtures.js";
+
+const EM_ARM = 40;
+const EM_X86_64 = 62;
+const EM_AARCH64 = 183;
+const IMAGE_FILE_MACHINE_I386 = 0x14c;
+const IMAGE_FILE_MACHINE_AMD64 = 0x8664;
+
+const LONG_NAME = "SkGraphics_very_long_object_name.o";
+
+describe("elf", () => {
+  let root: string;
+  let cleanup: () => void;
+
+  before(() => {
+    ({ dir: root, cleanup } = createTempDir());
+  });
+  after(() => cleanup());
+
+  const writeAr = (name: string, members: ArMember[]): string => {
+    const archivePath = path.join(root, name);
+    fs.writeFileSync(archivePath, buildAr(members));
+    return archivePath;
+  };
+
+  // A GNU archive as written by ar for a large static library: 32- and 64-bit
+  // symbol tables, a long name table and members named through it
+  const gnuArchive = (machine: number): ArMember[] => [
+    { name: "/", data: Buffer.alloc(8) },
+    { name: "/SYM64/", data: Buffer.alloc(16) },
+    { name: "//", data: Buffer.from(`${LONG_NAME}/\n`) },
+    { name: "/0", data: elfObject(machine) },
+    { name: "SkCanvas.o/", data: elfObject(machine) },
+  ];
+
+  describe("readArchiveMembers", () => {
+    it("lists only the objects of a GNU archive with /SYM64/ and long names", () => {
+      const members = readArchiveMembers(writeAr("gnu.a", gnuArchive(EM_X86_64)));
+
+      assert.deepEqual(
+        members.map((member) => member.name),
+        [LONG_NAME, "SkCanvas.o"]
+      );
+      assert.deepEqual(members[0].elf, { bits: 64, machine: EM_X86_64 });
+    });
+
+    it("reads BSD names stored in the member data", () => {
+      const symdef = Buffer.from("__.SYMDEF SORTED\0\0\0\0");
+      const name = Buffer.from(`${LONG_NAME}\0\0`);
+      const members = readArchiveMembers(
+        writeAr("bsd.a", [
+          { name: `#1/${symdef.length}`, data: Buffer.concat([symdef, Buffer.alloc(8)]) },
+          { name: `#1/${name.length}`, data: Buffer.concat([name, elfObject(EM_AARCH64)]) },
+        ])
+      );
+
+      assert.deepEqual(
+        members.map((member) => member.name),
+        [LONG_NAME]
+      );
+      assert.deepEqual(members[0].elf, { bits: 64, machine: EM_AARCH64 });
+    });
+
+    it("rejects files that aren't ar archives", () => {
+      const archivePath = path.join(root, "not-ar.a");
+      fs.writeFileSync(archivePath, "not an archive at all");
+
+      assert.throws(() => readArchiveMembers(archivePath), /not an ar archive/);
+    });
+
+    it("rejects thin archives", () => {
+      const archivePath = path.join(root, "thin.a");
+      fs.writeFileSync(archivePath, "!<thin>\n");
+
+      assert.throws(() => readArchiveMembers(archivePath), /thin archives/);
+    });
+  });
+
+  describe("checkLinuxArchive", () => {
+    it("accepts objects for the package's CPU", () => {
+      assert.deepEqual(checkLinuxArchive(writeAr("linux-x64.a", gnuArchive(EM_X86_64)), "x64"), []);
+    });
+
+    it("reports objects for another CPU", () => {
+      const problems = checkLinuxArchive(writeAr("linux-arm64.a", gnuArchive(EM_X86_64)), "arm64");
+
+      assert.equal(problems.length, 1);
+      assert.match(problems[0], /2 of 2 object\(s\) are x86-64 \(64-bit\), expected AArch64 \(64-bit\) for linux-arm64/);
+    });
+  });
+
+  describe("checkAndroidArchive", () => {
+    it("checks the ELF class as well as the machine", () => {
+      const archivePath = writeAr("android.a", [
+        { name: "arm32.o/", data: elfObject(EM_ARM, 32) },
+        { name: "arm64.o/", data: elfObject(EM_AARCH64, 64) },
+      ]);
+
+      assert.match(checkAndroidArchive(archivePath, "armeabi-v7a")[0], /1 of 2 object\(s\) are AArch64 \(64-bit\)/);
+      assert.deepEqual(checkAndroidArchive(archivePath, "riscv"), ['unknown Android ABI "riscv"']);
+    });
+
+    it("reports members that aren't ELF objects", () => {
+      const problems = checkAndroidArchive(
+        writeAr("bitcode.a", [{ name: "lto.o/", data: Buffer.from("BC\xc0\xde", "latin1") }]),
+        "arm64-v8a"
+      );
+
+      assert.match(problems[0], /1 member\(s\) are not ELF objects, e\.g\. lto\.o/);
+    });
+
+    it("reports an empty archive", () => {
+      assert.deepEqual(checkAndroidArchive(writeAr("empty.a", []), "x86_64"), [
+        "empty archive (no object files)",
+      ]);
+    });
+  });
+
+  describe("checkWindowsArchive", () => {
+    it("accepts COFF objects and import members for the package's CPU", () => {
+      const archivePath = writeAr("skia.lib", [
+        { name: "/", data: Buffer.alloc(8) },
+        { name: "skia.obj/", data: coffObject(IMAGE_FILE_MACHINE_AMD64) },
+        { name: "skia.dll/", data: coffImportObject(IMAGE_FILE_MACHINE_AMD64) },
+      ]);
+
+      assert.deepEqual(checkWindowsArchive(archivePath, "x64"), []);
+    });
+
+    it("reports objects for another CPU", () => {
+      const archivePath = writeAr("skia-x86.lib", [
+        { name: "skia.obj/", data: coffObject(IMAGE_FILE_MACHINE_I386) },
+      ]);
+
+      assert.deepEqual(checkWindowsArchive(archivePath, "x64"), [
+        "1 of 1 object(s) are x86, expected x64 for windows-x64, e.g. skia.obj",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Builders for the archives the parser tests run on: tar.gz, ar (GNU and BSD)
+ * and the ELF / COFF object headers inside static libraries. Fixtures are built
+ * in memory so each test states exactly which format features it exercises.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+
+const BLOCK_SIZE = 512;
+
+export interface TarEntry {
+  name: string;
+  // "0" file, "2" symlink, "5" directory, "x" pax header, "L" GNU long name
+  type?: "0" | "2" | "5" | "x" | "L";
+  content?: string | Buffer;
+  linkname?: string;
+  mode?: number;
+  // Write the name as ustar prefix + name instead of a single field
+  ustarPrefix?: string;
+}
+
+const writeString = (block: Buffer, offset: number, length: number, value: string): void => {
+  block.write(value, offset, Math.min(length, Buffer.byteLength(value)), "utf8");
+};
+
+const writeOctal = (block: Buffer, offset: number, length: number, value: number): void => {
+  writeString(block, offset, length, value.toString(8).padStart(length - 1, "0") + "\0");
+};
+
+const tarHeader = (entry: TarEntry, size: number): Buffer => {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  writeString(block, 0, 100, entry.name);
+  writeOctal(block, 100, 8, entry.mode ?? (entry.type === "5" ? 0o755 : 0o644));
+  writeOctal(block, 108, 8, 0);
+  writeOctal(block, 116, 8, 0);
+  writeOctal(block, 124, 12, size);
+  writeOctal(block, 136, 12, 0);
+  block.write(entry.type ?? "0", 156, "latin1");
+  writeString(block, 157, 100, entry.linkname ?? "");
+  writeString(block, 257, 6, "ustar\0");
+  writeString(block, 263, 2, "00");
+  writeString(block, 345, 155, entry.ustarPrefix ?? "");
+
+  // The checksum is computed with its own field filled with spaces
+  block.fill(0x20, 148, 156);
+  let sum = 0;
+  for (const byte of block) {
+    sum += byte;
+  }
+  writeString(block, 148, 8, sum.toString(8).padStart(6, "0") + "\0 ");
+  return block;
+};
+
+/**
+ * A pax extended header record: "<length> <key>=<value>\n", where the length
+ * counts the whole record including itself.
+ */
+export const paxRecord = (key: string, value: string): string => {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  while (String(length).length + Buffer.byteLength(body) !== length) {
+    length = String(length).length + Buffer.byteLength(body);
+  }
+  return `${length}${body}`;
+};
+
+export const buildTar = (entries: TarEntry[]): Buffer => {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const data = Buffer.from(entry.content ?? "");
+    blocks.push(tarHeader(entry, data.length), data);
+    blocks.push(Buffer.alloc((BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE));
+  }
+  // End of archive: two zero blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+};
+
+export const writeTarGz = (archivePath: string, entries: TarEntry[]): void => {
+  fs.writeFileSync(archivePath, zlib.gzipSync(buildTar(entries)));
+};
+
+export interface ArMember {
+  // Raw name field: "name.o/", "/SYM64/", "//", "/0", "#1/12"...
+  name: string;
+  data: Buffer;
+}
+
+export const buildAr = (members: ArMember[]): Buffer => {
+  const parts: Buffer[] = [Buffer.from("!<arch>\n", "latin1")];
+  for (const { name, data } of members) {
+    const header =
+      name.padEnd(16) +
+      "0".padEnd(12) +
+      "0".padEnd(6) +
+      "0".padEnd(6) +
+      "644".padEnd(8) +
+      String(data.length).padEnd(10) +
+      "`\n";
+    parts.push(Buffer.from(header, "latin1"), data);
+    if (data.length % 2) {
+      parts.push(Buffer.from("\n"));
+    }
+  }
+  return Buffer.concat(parts);
+};
+
+/**
+ * First bytes of an ELF relocatable object for a machine and class.
+ */
+export const elfObject = (machine: number, bits: 32 | 64 = 64): Buffer => {
+  const header = Buffer.alloc(64);
+  header.write("\x7fELF", 0, "latin1");
+  header[4] = bits === 64 ? 2 : 1;
+  header[5] = 1;
+  header[6] = 1;
+  header.writeUInt16LE(1, 16);
+  header.writeUInt16LE(machine, 18);
+  return header;
+};
+
+/**
+ * First bytes of a COFF object (IMAGE_FILE_HEADER) for a machine.
+ */
+export const coffObject = (machine: number): Buffer => {
+  const header = Buffer.alloc(64);
+  header.writeUInt16LE(machine, 0);
+  header.writeUInt16LE(1, 2);
+  return header;
+};
+
+/**
+ * A COFF import member: Sig1 = 0, Sig2 = 0xFFFF, Version, then Machine.
+ */
+export const coffImportObject = (machine: number): Buffer => {
+  const header = Buffer.alloc(20);
+  header.writeUInt16LE(0, 0);
+  header.writeUInt16LE(0xffff, 2);
+  header.writeUInt16LE(0, 4);
+  header.writeUInt16LE(machine, 6);
+  return header;
+};
+
+/**
+ * A temporary directory, removed by the returned cleanup function.
+ */
+export const createTempDir = (): { dir: string; cleanup: () => void } => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "skia-binaries-test-"));
+  return { dir, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+};
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parsePlist } from "../plist.js";
+
+const plist = (body: string): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+${body}
+</plist>
+`;
+
+describe("parsePlist", () => {
+  it("parses an xcframework Info.plist", () => {
+    const value = parsePlist(
+      plist(`<dict>
+  <key>AvailableLibraries</key>
+  <array>
+    <dict>
+      <key>LibraryIdentifier</key>
+      <string>ios-arm64_x86_64-simulator</string>
+      <key>SupportedArchitectures</key>
+      <array>
+        <string>arm64</string>
+        <string>x86_64</string>
+      </array>
+      <key>SupportedPlatformVariant</key>
+      <string>simulator</string>
+    </dict>
+  </array>
+  <key>XCFrameworkFormatVersion</key>
+  <string>1.0</string>
+</dict>`)
+    );
+
+    assert.deepEqual(value, {
+      AvailableLibraries: [
+        {
+          LibraryIdentifier: "ios-arm64_x86_64-simulator",
+          SupportedArchitectures: ["arm64", "x86_64"],
+          SupportedPlatformVariant: "simulator",
+        },
+      ],
+      XCFrameworkFormatVersion: "1.0",
+    });
+  });
+
+  it("parses every scalar type", () => {
+    const value = parsePlist(
+      plist(`<dict>
+  <key>integer</key><integer>-42</integer>
+  <key>real</key><real>1.5</real>
+  <key>true</key><true/>
+  <key>false</key><false/>
+  <key>data</key><data>
+    c2tp
+    YQ==
+  </data>
+  <key>date</key><date>2024-01-02T03:04:05Z</date>
+  <key>empty</key><string/>
+  <key>entities</key><string>a &lt;b&gt; &amp; &quot;c&quot; &#x41;&#66;</string>
+</dict>`)
+    );
+
+    assert.deepEqual(value, {
+      integer: -42,
+      real: 1.5,
+      true: true,
+      false: false,
+      data: Buffer.from("skia"),
+      date: new Date("2024-01-02T03:04:05Z"),
+      empty: "",
+      entities: 'a <b> & "c" AB',
+    });
+  });
+
+  it("rejects binary plists", () => {
+    assert.throws(() => parsePlist("bplist00\0\0"), /Binary plists are not supported/);
+  });
+
+  it("reports where a malformed plist goes wrong", () => {
+    assert.throws(
+      () => parsePlist(plist("<dict><key>a</key><string>unterminated</dict>")),
+      /^Error: Invalid plist at offset \d+: /
+    );
+  });
+});
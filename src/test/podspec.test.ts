@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { generatePodspec } from "../podspec.js";
+import { deriveBackendConfig, registerBackend } from "../registry.js";
+
+/**
+ * The value of a single-quoted Ruby string assigned to s.<field>.
+ */
+const readRubyString = (podspec: string, field: string): string => {
+  const match = podspec.match(new RegExp(`^  s\\.${field} += '((?:[^'\\\\]|\\\\.)*)'$`, "m"));
+  assert.ok(match, `s.${field} is not a single-quoted string`);
+  return match[1].replace(/\\([\\'])/g, "$1");
+};
+
+describe("generatePodspec", () => {
+  const label = String.raw`Graphite (Vulkan's \ test)`;
+  const backendConfig = deriveBackendConfig("skia-graphite-quoted", { extends: "graphite", label });
+  const backend = registerBackend(backendConfig);
+  const pkg = backendConfig.packages.find((candidate) => candidate.name === "apple-ios")!;
+
+  it("escapes quotes and backslashes of the backend label", () => {
+    const podspec = generatePodspec(pkg, backend, "m147a", "147.0.0", ["libskia.xcframework"]);
+
+    assert.equal(
+      readRubyString(podspec, "description"),
+      `Skia m147a (${label}) prebuilt xcframeworks from Shopify/react-native-skia.`
+    );
+    assert.equal(readRubyString(podspec, "name"), "react-native-skia-graphite-quoted-apple-ios");
+    assert.match(podspec, /^    'libs\/libskia\.xcframework',$/m);
+  });
+
+  it("keeps the header comment on one line", () => {
+    const multiline = registerBackend(
+      deriveBackendConfig("skia-graphite-multiline", { extends: "graphite", label: "Graphite\nVulkan" })
+    );
+    const podspec = generatePodspec(pkg, multiline, "m147a", "147.0.0", []);
+
+    assert.match(podspec, /^# Generated by .* \(Graphite Vulkan\)\nPod::Spec\.new do \|s\|$/m);
+  });
+});
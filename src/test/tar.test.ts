@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { after, before, describe, it } from "node:test";
+import { extractTarGz } from "../tar.js";
+import { TarEntry, createTempDir, paxRecord, writeTarGz } from "./fixtures.js";
+
+describe("extractTarGz", () => {
+  let root: string;
+  let cleanup: () => void;
+
+  before(() => {
+    ({ dir: root, cleanup } = createTempDir());
+  });
+  after(() => cleanup());
+
+  const extract = async (name: string, entries: TarEntry[]): Promise<string> => {
+    const archivePath = path.join(root, `${name}.tar.gz`);
+    const destDir = path.join(root, name);
+    writeTarGz(archivePath, entries);
+    await extractTarGz(archivePath, destDir);
+    return destDir;
+  };
+
+  it("extracts directories and files with their permission bits", async () => {
+    const dest = await extract("ustar", [
+      { name: "top/", type: "5" },
+      { name: "top/libskia.a", content: "archive" },
+      { name: "top/bin/tool", content: "#!/bin/sh\n", mode: 0o755 },
+    ]);
+
+    assert.equal(fs.readFileSync(path.join(dest, "top/libskia.a"), "utf8"), "archive");
+    assert.equal(fs.statSync(path.join(dest, "top/bin/tool")).mode & 0o777, 0o755);
+    assert.equal(fs.statSync(path.join(dest, "top/libskia.a")).mode & 0o777, 0o644);
+  });
+
+  it("joins the ustar prefix and name fields", async () => {
+    const dir = "a".repeat(60) + "/" + "b".repeat(60);
+    const dest = await extract("prefix", [
+      { name: "file.txt", ustarPrefix: dir, content: "prefixed" },
+    ]);
+
+    assert.equal(fs.readFileSync(path.join(dest, dir, "file.txt"), "utf8"), "prefixed");
+  });
+
+  it("uses pax path records for names longer than the header allows", async () => {
+    const longName = `${"nested/".repeat(40)}libskia.a`;
+    const dest = await extract("pax", [
+      { name: "PaxHeaders/libskia.a", type: "x", content: paxRecord("path", longName) },
+      { name: "truncated-name", content: "pax" },
+    ]);
+
+    assert.equal(fs.readFileSync(path.join(dest, longName), "utf8"), "pax");
+    assert.equal(fs.existsSync(path.join(dest, "truncated-name")), false);
+  });
+
+  it("uses GNU long name entries", async () => {
+    const longName = `${"gnu/".repeat(40)}libskia.a`;
+    const dest = await extract("gnu", [
+      { name: "././@LongLink", type: "L", content: `${longName}\0` },
+      { name: "truncated-name", content: "gnu" },
+    ]);
+
+    assert.equal(fs.readFileSync(path.join(dest, longName), "utf8"), "gnu");
+  });
+
+  it("recreates symlinks as symlinks", async () => {
+    const dest = await extract("symlinks", [
+      { name: "Skia.framework/Versions/A/Skia", content: "binary" },
+      { name: "Skia.framework/Versions/Current", type: "2", linkname: "A" },
+      { name: "Skia.framework/Skia", type: "2", linkname: "Versions/Current/Skia" },
+    ]);
+
+    const current = path.join(dest, "Skia.framework/Versions/Current");
+    assert.equal(fs.lstatSync(current).isSymbolicLink(), true);
+    assert.equal(fs.readlinkSync(current), "A");
+    assert.equal(fs.readFileSync(path.join(dest, "Skia.framework/Skia"), "utf8"), "binary");
+  });
+
+  it("rejects '..' path traversal without writing outside the destination", async () => {
+    await assert.rejects(
+      extract("traversal", [{ name: "../escaped.txt", content: "escaped" }]),
+      /at entry "\.\.\/escaped\.txt": path traversal/
+    );
+    assert.equal(fs.existsSync(path.join(root, "escaped.txt")), false);
+  });
+
+  it("rejects absolute paths", async () => {
+    await assert.rejects(
+      extract("absolute", [{ name: "/tmp/absolute.txt", content: "absolute" }]),
+      /absolute paths are not allowed/
+    );
+  });
+
+  it("rejects symlinks pointing outside the destination", async () => {
+    await assert.rejects(
+      extract("symlink-escape", [{ name: "link", type: "2", linkname: "../../etc" }]),
+      /escapes the destination directory/
+    );
+  });
+
+  it("rejects symlinks that escape through an extracted symlink", async () => {
+    await assert.rejects(
+      extract("symlink-chain", [
+        { name: "a", type: "2", linkname: "." },
+        { name: "b", type: "2", linkname: "a/a/../../x" },
+      ]),
+      /at entry "b": symlink target "a\/a\/\.\.\/\.\.\/x" escapes the destination directory/
+    );
+  });
+
+  it("rejects entries written through an extracted symlink", async () => {
+    await assert.rejects(
+      extract("symlink-parent", [
+        { name: "real/", type: "5" },
+        { name: "link", type: "2", linkname: "real" },
+        { name: "link/file.txt", content: "through the link" },
+      ]),
+      /parent link is a symlink/
+    );
+  });
+
+  it("rejects a corrupt header", async () => {
+    const archivePath = path.join(root, "corrupt.tar.gz");
+    writeTarGz(archivePath, [{ name: "file.txt", content: "data" }]);
+    const tar = zlib.gunzipSync(fs.readFileSync(archivePath));
+    tar[0] ^= 0xff;
+    fs.writeFileSync(archivePath, zlib.gzipSync(tar));
+
+    await assert.rejects(
+      extractTarGz(archivePath, path.join(root, "corrupt")),
+      /invalid header checksum/
+    );
+  });
+});
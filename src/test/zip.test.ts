@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { after, before, describe, it } from "node:test";
+import { zipDirectory } from "../zip.js";
+import { createTempDir } from "./fixtures.js";
+
+interface ZipRecord {
+  name: string;
+  mode: number;
+  data: Buffer;
+}
+
+/**
+ * Read a zip through its central directory, the way unzip does.
+ */
+const readZip = (zip: Buffer): ZipRecord[] => {
+  const end = zip.length - 22;
+  assert.equal(zip.readUInt32LE(end), 0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+
+  const records: ZipRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    assert.equal(zip.readUInt32LE(offset), 0x02014b50);
+    const method = zip.readUInt16LE(offset + 10);
+    const crc = zip.readUInt32LE(offset + 16);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const mode = zip.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataOffset = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(dataOffset, dataOffset + compressedSize);
+    const data = method === 8 ? zlib.inflateRawSync(raw) : Buffer.from(raw);
+    assert.equal(zlib.crc32(data), crc, `CRC of ${name}`);
+
+    records.push({ name, mode, data });
+    offset += 46 + nameLength;
+  }
+  return records;
+};
+
+describe("zipDirectory", () => {
+  let root: string;
+  let cleanup: () => void;
+  let framework: string;
+
+  before(() => {
+    ({ dir: root, cleanup } = createTempDir());
+    framework = path.join(root, "Skia.framework");
+    fs.mkdirSync(path.join(framework, "Versions/A/Headers"), { recursive: true });
+    fs.writeFileSync(path.join(framework, "Versions/A/Skia"), "binary ".repeat(100));
+    fs.writeFileSync(path.join(framework, "Versions/A/Headers/Skia.h"), "#pragma once\n");
+    fs.chmodSync(path.join(framework, "Versions/A/Skia"), 0o755);
+    fs.symlinkSync("A", path.join(framework, "Versions/Current"));
+    fs.symlinkSync("Versions/Current/Skia", path.join(framework, "Skia"));
+  });
+  after(() => cleanup());
+
+  it("stores the directory as the top-level entry, in sorted order", () => {
+    const zipPath = path.join(root, "out/Skia.framework.zip");
+    zipDirectory(framework, zipPath);
+
+    assert.deepEqual(
+      readZip(fs.readFileSync(zipPath)).map((record) => record.name),
+      [
+        "Skia.framework/",
+        "Skia.framework/Skia",
+        "Skia.framework/Versions/",
+        "Skia.framework/Versions/A/",
+        "Skia.framework/Versions/A/Headers/",
+        "Skia.framework/Versions/A/Headers/Skia.h",
+        "Skia.framework/Versions/A/Skia",
+        "Skia.framework/Versions/Current",
+      ]
+    );
+  });
+
+  it("keeps file contents, permissions and symlinks", () => {
+    const zipPath = path.join(root, "contents.zip");
+    zipDirectory(framework, zipPath);
+    const records = new Map(readZip(fs.readFileSync(zipPath)).map((record) => [record.name, record]));
+
+    const binary = records.get("Skia.framework/Versions/A/Skia")!;
+    assert.equal(binary.data.toString(), "binary ".repeat(100));
+    assert.equal(binary.mode, 0o100755);
+
+    const header = records.get("Skia.framework/Versions/A/Headers/Skia.h")!;
+    assert.equal(header.data.toString(), "#pragma once\n");
+    assert.equal(header.mode & 0o170000, 0o100000);
+
+    const current = records.get("Skia.framework/Versions/Current")!;
+    assert.equal(current.mode & 0o170000, 0o120000);
+    assert.equal(current.data.toString(), "A");
+
+    assert.equal(records.get("Skia.framework/")!.mode & 0o170000, 0o040000);
+  });
+
+  it("gives byte-identical archives for the same directory", () => {
+    const first = path.join(root, "first.zip");
+    const second = path.join(root, "second.zip");
+    zipDirectory(framework, first);
+    fs.utimesSync(path.join(framework, "Versions/A/Skia"), new Date(), new Date());
+    zipDirectory(framework, second);
+
+    assert.ok(fs.readFileSync(first).equals(fs.readFileSync(second)));
+  });
+});
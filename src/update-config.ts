@@ -0,0 +1,226 @@
+/**
+ * Script to bump skia-config.json to a new Skia release.
+ * Downloads every registry artifact for the release, computes its checksum and
+ * rewrites the backend's version and checksums in place. Only the packages the
+ * block selects ("packages") are downloaded; optional packages (Linux and Windows)
+ * the release has no assets for get no checksums.
+ *
+ * Usage:
+ *   npx tsx src/update-config.ts --skia-version=m148a
+ *   npx tsx src/update-config.ts --skia-version=m148a --backend=graphite
+ *
+ * Options:
+ *   --skia-version  New Skia milestone version (e.g., m148a)
+ *   --backend       Block to update: ganesh, graphite, or a backend defined in the config,
+ *                   by name or config key (default: ganesh)
+ *   --graphite      Same as --backend=graphite
+ *   --config        Config file path (default: ./skia-config.json)
+ *   --concurrency   Number of artifacts downloaded in parallel (default: 4)
+ *   --source        Read assets from a local directory (file:///path/to/assets)
+ *   --mirror        Download assets from a mirror laid out as <mirror>/<release-tag>/<asset>
+ *   --repo          GitHub repository to download releases from (default: shopify/react-native-skia)
+ *   --cache-dir     Cache directory for downloaded archives
+ *   --no-cache      Always download, without reading or writing the cache
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { resolveCacheDir } from "./artifact-cache.js";
+import { describeAssetSource, resolveAssetSource } from "./asset-source.js";
+import {
+  SkiaConfig,
+  getBackendArg,
+  getBackendConfig,
+  loadBackends,
+  readConfigFile,
+  selectPackages,
+  validateConfig,
+} from "./config.js";
+import { DownloadOptions, downloadAndExtractAsset, isAssetNotFound } from "./download.js";
+import {
+  Backend,
+  PackageConfig,
+  getBackendLabel,
+  getConfigKey,
+  getPackageArtifacts,
+  getPackages,
+  getReleaseTag,
+} from "./registry.js";
+import { createLimiter, createTaskLog, resolveConcurrency, settleAll } from "./scheduler.js";
+import { parseArgs } from "./utils.js";
+import { deriveNpmVersion } from "./version.js";
+
+/**
+ * Download every artifact of the packages in a release and compute its checksum.
+ */
+const computeReleaseChecksums = async (
+  backend: Backend,
+  packages: PackageConfig[],
+  skiaVersion: string,
+  downloadOptions: DownloadOptions,
+  concurrency: number
+): Promise<Record<string, string>> => {
+  const releaseTag = getReleaseTag(backend, skiaVersion);
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "skia-update-config-"));
+  const limit = createLimiter(concurrency);
+
+  const computePackage = async (pkg: PackageConfig): Promise<[string, string][]> => {
+    const { log, flush } = createTaskLog(concurrency > 1);
+    log(`  Package: ${pkg.name}`);
+    try {
+      return await settleAll(
+        getPackageArtifacts(pkg).map((artifact) =>
+          limit(async (): Promise<[string, string]> => {
+            const destDir = path.join(tempDir, artifact.checksumKey);
+            const checksum = await downloadAndExtractAsset(
+              artifact.artifact,
+              releaseTag,
+              destDir,
+              artifact.srcSubdir,
+              { ...downloadOptions, log }
+            );
+            if (!checksum) {
+              throw new Error(`Could not compute checksum for ${artifact.checksumKey}`);
+            }
+            // Only the checksum is needed, free the disk space right away
+            fs.rmSync(destDir, { recursive: true, force: true });
+            return [artifact.checksumKey, checksum];
+          })
+        )
+      );
+    } catch (error) {
+      if (pkg.optional && isAssetNotFound(error)) {
+        log(`    [-] Skipped: ${(error as Error).message}`);
+        return [];
+      }
+      throw error;
+    } finally {
+      flush();
+    }
+  };
+
+  try {
+    const results = await settleAll(packages.map(computePackage));
+    return Object.fromEntries(results.flat());
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Print old vs new values so the bump can be reviewed.
+ * Returns the number of changed entries.
+ */
+const printConfigDiff = (
+  configKey: string,
+  oldConfig: SkiaConfig | undefined,
+  newConfig: SkiaConfig
+): number => {
+  let changes = 0;
+
+  console.log(`${configKey}.version:`);
+  if (oldConfig?.version === newConfig.version) {
+    console.log(`  = ${newConfig.version}`);
+  } else {
+    console.log(`  - ${oldConfig?.version ?? "(none)"}`);
+    console.log(`  + ${newConfig.version}`);
+    changes++;
+  }
+
+  console.log(`${configKey}.checksums:`);
+  const oldChecksums = oldConfig?.checksums ?? {};
+  const newChecksums = newConfig.checksums ?? {};
+  const keys = [
+    ...Object.keys(newChecksums),
+    ...Object.keys(oldChecksums).filter((key) => !(key in newChecksums)),
+  ];
+
+  for (const key of keys) {
+    const before = oldChecksums[key];
+    const after = newChecksums[key];
+    if (before === after) {
+      console.log(`  = ${key}`);
+    } else if (before === undefined) {
+      console.log(`  + ${key}: ${after}`);
+      changes++;
+    } else if (after === undefined) {
+      console.log(`  - ${key}: ${before}`);
+      changes++;
+    } else {
+      console.log(`  ~ ${key}`);
+      console.log(`      - ${before}`);
+      console.log(`      + ${after}`);
+      changes++;
+    }
+  }
+
+  return changes;
+};
+
+const main = async (): Promise<void> => {
+  const args = parseArgs();
+
+  if (!args["skia-version"]) {
+    console.error("Error: --skia-version is required");
+    console.error("Usage: npx tsx src/update-config.ts --skia-version=m148a");
+    process.exit(1);
+  }
+
+  const skiaVersion = args["skia-version"] as string;
+  const configPath = path.resolve((args.config as string) || "skia-config.json");
+
+  try {
+    // Reject malformed versions before downloading anything
+    deriveNpmVersion(skiaVersion);
+
+    // Not validated on read: the bump may be what fixes it. Only the backend
+    // definitions must be valid, to find the block's release
+    const config = readConfigFile(configPath);
+    loadBackends(configPath);
+    const backend: Backend = getBackendArg(args);
+    const configKey = getConfigKey(backend);
+
+    console.log(`Updating ${getBackendLabel(backend)} config...`);
+    console.log(`  Config: ${configPath}`);
+    console.log(`  Skia version: ${skiaVersion}`);
+
+    const source = resolveAssetSource(args);
+    console.log(`  Source: ${describeAssetSource(source)}`);
+    console.log("");
+
+    const oldConfig = getBackendConfig(config, backend);
+    const checksums = await computeReleaseChecksums(
+      backend,
+      oldConfig ? selectPackages(backend, oldConfig) : getPackages(backend),
+      skiaVersion,
+      { source, cacheDir: resolveCacheDir(args) },
+      resolveConcurrency(args)
+    );
+    const newConfig: SkiaConfig = { ...oldConfig, version: skiaVersion, checksums };
+
+    console.log("");
+    const changes = printConfigDiff(configKey, oldConfig, newConfig);
+    console.log("");
+
+    if (changes === 0) {
+      console.log("Config is already up to date.");
+      return;
+    }
+
+    config[configKey] = newConfig;
+    const problems = validateConfig(config);
+    if (problems.length > 0) {
+      throw new Error(
+        `Refusing to write an invalid config:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`
+      );
+    }
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + "\n");
+    console.log(`Updated ${configPath} (${changes} change(s))`);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+};
+
+main();
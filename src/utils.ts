@@ -0,0 +1,138 @@
+/**
+ * Small helpers shared by the CLI scripts.
+ */
+
+import fs from "fs";
+import path from "path";
+import { spawn } from "child_process";
+
+export interface Args {
+  [key: string]: string | boolean;
+}
+
+export const parseArgs = (): Args => {
+  const args: Args = {};
+  for (const arg of process.argv.slice(2)) {
+    if (arg.startsWith("--")) {
+      const [key, value] = arg.slice(2).split("=");
+      args[key] = value ?? true;
+    }
+  }
+  return args;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Size of a file, or of every file under a directory. Symlinks count as links.
+ */
+export const getSize = (target: string): number => {
+  const stat = fs.lstatSync(target);
+  if (!stat.isDirectory()) {
+    return stat.size;
+  }
+  return fs
+    .readdirSync(target)
+    .reduce((total, name) => total + getSize(path.join(target, name)), 0);
+};
+
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+export const runCommand = (
+  command: string,
+  args: string[],
+  options: object = {}
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      stdio: ["ignore", "inherit", "inherit"],
+      ...options,
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Command ${command} exited with code ${code}`));
+      }
+    });
+  });
+};
+
+export interface CommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run a command and capture its output instead of inheriting stdio.
+ */
+export const captureCommand = (
+  command: string,
+  args: string[],
+  options: object = {}
+): Promise<CommandResult> => {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      stdio: ["ignore", "pipe", "pipe"],
+      ...options,
+    });
+    let stdout = "";
+    let stderr = "";
+    child.stdout!.on("data", (chunk: Buffer) => (stdout += chunk.toString("utf8")));
+    child.stderr!.on("data", (chunk: Buffer) => (stderr += chunk.toString("utf8")));
+    child.on("error", reject);
+    child.on("close", (code) => resolve({ code, stdout, stderr }));
+  });
+};
+
+/**
+ * Copy a file, symlink or directory. Symlinks are recreated as symlinks (not
+ * followed) so framework layouts like Versions/Current survive, and file
+ * permission bits are preserved.
+ */
+export const copyEntry = (src: string, dest: string): void => {
+  const stat = fs.lstatSync(src);
+  if (stat.isSymbolicLink()) {
+    fs.rmSync(dest, { force: true });
+    fs.symlinkSync(fs.readlinkSync(src), dest);
+  } else if (stat.isDirectory()) {
+    copyDir(src, dest);
+  } else if (stat.isFile()) {
+    fs.copyFileSync(src, dest);
+    fs.chmodSync(dest, stat.mode & 0o777);
+  }
+  // Sockets, FIFOs and devices are skipped
+};
+
+export const copyDir = (src: string, dest: string): void => {
+  fs.mkdirSync(dest, { recursive: true });
+  for (const name of fs.readdirSync(src)) {
+    copyEntry(path.join(src, name), path.join(dest, name));
+  }
+};
+
+/**
+ * Symlinks under a directory, as "/"-separated paths relative to it.
+ * npm pack leaves symlinks out of the tarball.
+ */
+export const listSymlinks = (dir: string, base = dir): string[] => {
+  if (!fs.existsSync(dir)) return [];
+  const links: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isSymbolicLink()) {
+      links.push(path.relative(base, fullPath).split(path.sep).join("/"));
+    } else if (entry.isDirectory()) {
+      links.push(...listSymlinks(fullPath, base));
+    }
+  }
+  return links;
+};
@@ -0,0 +1,428 @@
+/**
+ * Script to validate generated packages before publishing.
+ *
+ * Usage:
+ *   npx tsx src/validate-packages.ts
+ *   npx tsx src/validate-packages.ts --dist-dir=dist
+ *   npx tsx src/validate-packages.ts --backend=graphite
+ *
+ * Options:
+ *   --dist-dir      Output directory of generate-packages (default: ./dist)
+ *   --backend       Only validate the packages of this backend (name or config key)
+ *   --config        Config file defining additional backends (default: ./skia-config.json)
+ *
+ * Checks every package listed in <dist-dir>/generated-packages.json against
+ * its registry entry:
+ *   - Android: every ABI directory holds every required library for the backend,
+ *     every .a is a non-empty archive of objects for that ABI (ELF e_machine),
+ *     and the backend's marker file (graphite.enabled for Graphite); cmake/SkiaConfig.cmake
+ *     (and the prefab layout, when present) declares exactly the libraries in libs/
+ *   - Apple: every required .xcframework exists with an Info.plist and an intact layout,
+ *     and its AvailableLibraries include every slice the platform needs; the podspec
+ *     vendors exactly the xcframeworks in libs/
+ *   - Linux and Windows: libs/ holds every required library for the backend, and every
+ *     .a (Linux) is an archive of ELF objects, every .lib (Windows) an archive of COFF
+ *     objects, for the package's CPU
+ *   - Headers: libs/ is not empty
+ *   - index.js loads, describes the package and only lists library paths that exist
+ *   - The file list `npm pack` would publish matches "files" (libs/**, plus the podspec
+ *     of Apple packages and cmake/** and prefab/** of Android packages)
+ */
+
+import fs from "fs";
+import { createRequire } from "module";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  CMAKE_CONFIG_FILE,
+  CMAKE_DIR,
+  listAndroidLibraries,
+  readCmakeConfigLibraries,
+} from "./cmake.js";
+import { DEFAULT_CONFIG_PATH, loadBackends } from "./config.js";
+import { checkAndroidArchive, checkLinuxArchive, checkWindowsArchive } from "./elf.js";
+import { readGeneratedManifest } from "./manifest.js";
+import { listVendoredXcframeworks } from "./podspec.js";
+import { PREFAB_DIR } from "./prefab.js";
+import {
+  ALWAYS_PACKED,
+  Backend,
+  PackageConfig,
+  findPackageByName,
+  getMarkerFile,
+  getPackageFiles,
+  getPodspecName,
+  getRequiredLibs,
+  isDesktopPlatform,
+  isGraphite,
+  resolveBackend,
+} from "./registry.js";
+import { captureCommand, parseArgs } from "./utils.js";
+import { checkXcframeworkSlices, validateXcframeworks } from "./xcframework.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.join(__dirname, "..");
+
+interface PackageJson {
+  name: string;
+  version: string;
+  main?: string;
+  files?: string[];
+  skia?: { version?: string; backend?: string; graphite?: boolean };
+}
+
+interface EntryPointExports {
+  name?: string;
+  version?: string;
+  skiaVersion?: string;
+  backend?: string;
+  libsDir?: string;
+  abis?: Record<string, string[]>;
+  xcframeworks?: Record<string, string>;
+  libraries?: string[];
+}
+
+/**
+ * Files and symlinks under dir. Symlinks are listed so the npm pack check can
+ * report them: npm leaves them out of the tarball.
+ */
+const listFiles = (dir: string, base = dir): string[] => {
+  if (!fs.existsSync(dir)) return [];
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(fullPath, base));
+    } else if (entry.isFile() || entry.isSymbolicLink()) {
+      files.push(path.relative(base, fullPath).split(path.sep).join("/"));
+    }
+  }
+  return files;
+};
+
+const checkAndroid = (
+  libsDir: string,
+  pkg: PackageConfig,
+  backend: Backend,
+  problems: string[]
+): void => {
+  const requiredLibs = getRequiredLibs(pkg, backend);
+  for (const { arch } of pkg.androidArchs ?? []) {
+    const archDir = path.join(libsDir, arch);
+    if (!fs.existsSync(archDir)) {
+      problems.push(`libs/${arch}: missing`);
+      continue;
+    }
+    for (const lib of requiredLibs) {
+      if (!fs.existsSync(path.join(archDir, lib))) {
+        problems.push(`libs/${arch}/${lib}: missing`);
+      }
+    }
+    // Every archive must hold objects for this ABI, not another one
+    for (const lib of fs.readdirSync(archDir).filter((name) => name.endsWith(".a")).sort()) {
+      for (const problem of checkAndroidArchive(path.join(archDir, lib), arch)) {
+        problems.push(`libs/${arch}/${lib}: ${problem}`);
+      }
+    }
+  }
+  const marker = getMarkerFile(backend);
+  if (marker && !fs.existsSync(path.join(libsDir, marker))) {
+    problems.push(`libs/${marker}: missing`);
+  }
+
+  const pkgDir = path.dirname(libsDir);
+  const abis = listAndroidLibraries(libsDir, pkg);
+  const cmakeConfig = path.join(pkgDir, CMAKE_DIR, CMAKE_CONFIG_FILE);
+  if (!fs.existsSync(cmakeConfig)) {
+    problems.push(`${CMAKE_DIR}/${CMAKE_CONFIG_FILE}: missing`);
+  } else {
+    const declared = readCmakeConfigLibraries(fs.readFileSync(cmakeConfig, "utf8"));
+    for (const { arch, libraries } of abis) {
+      const expected = [...libraries].sort().join(" ");
+      const actual = [...(declared.get(arch) ?? [])].sort().join(" ");
+      if (actual !== expected) {
+        problems.push(
+          `${CMAKE_DIR}/${CMAKE_CONFIG_FILE}: declares [${actual}] for ${arch}, libs/${arch} has [${expected}]`
+        );
+      }
+    }
+  }
+
+  const prefabDir = path.join(pkgDir, PREFAB_DIR);
+  if (fs.existsSync(prefabDir)) {
+    for (const { arch, libraries } of abis) {
+      for (const library of libraries) {
+        const file = `modules/${library}/libs/android.${arch}/lib${library}.a`;
+        const prefabLib = path.join(prefabDir, file);
+        if (!fs.existsSync(prefabLib)) {
+          problems.push(`${PREFAB_DIR}/${file}: missing`);
+        } else if (fs.statSync(prefabLib).size !== fs.statSync(path.join(libsDir, arch, `lib${library}.a`)).size) {
+          problems.push(`${PREFAB_DIR}/${file}: differs from libs/${arch}/lib${library}.a`);
+        }
+      }
+    }
+  }
+};
+
+const checkApple = (
+  libsDir: string,
+  pkg: PackageConfig,
+  backend: Backend,
+  problems: string[]
+): void => {
+  for (const xcframework of getRequiredLibs(pkg, backend)) {
+    const xcframeworkDir = path.join(libsDir, xcframework);
+    if (!fs.existsSync(xcframeworkDir)) {
+      problems.push(`libs/${xcframework}: missing`);
+    } else if (!fs.existsSync(path.join(xcframeworkDir, "Info.plist"))) {
+      problems.push(`libs/${xcframework}/Info.plist: missing`);
+    }
+  }
+  problems.push(...validateXcframeworks(libsDir).map((problem) => `libs/${problem}`));
+  const { problems: sliceProblems } = checkXcframeworkSlices(libsDir, pkg.xcframeworkSlices ?? []);
+  problems.push(...sliceProblems.map((problem) => `libs/${problem}`));
+
+  const podspecName = getPodspecName(pkg, backend);
+  const podspecPath = path.join(path.dirname(libsDir), podspecName);
+  if (!fs.existsSync(podspecPath)) {
+    problems.push(`${podspecName}: missing`);
+    return;
+  }
+  const vendored = [...fs.readFileSync(podspecPath, "utf8").matchAll(/'libs\/([^']+\.xcframework)'/g)]
+    .map((match) => match[1])
+    .sort();
+  const present = listVendoredXcframeworks(libsDir);
+  for (const name of present.filter((name) => !vendored.includes(name))) {
+    problems.push(`${podspecName}: does not vendor libs/${name}`);
+  }
+  for (const name of vendored.filter((name) => !present.includes(name))) {
+    problems.push(`${podspecName}: vendors missing libs/${name}`);
+  }
+};
+
+/**
+ * Check a Linux or Windows package's libraries and the CPU of their objects.
+ */
+const checkDesktop = (
+  libsDir: string,
+  pkg: PackageConfig,
+  backend: Backend,
+  problems: string[]
+): void => {
+  for (const lib of getRequiredLibs(pkg, backend)) {
+    if (!fs.existsSync(path.join(libsDir, lib))) {
+      problems.push(`libs/${lib}: missing`);
+    }
+  }
+  if (!pkg.cpu) {
+    problems.push(`${pkg.name}: no CPU in the registry`);
+    return;
+  }
+  // Every archive must hold objects for the package's CPU and object format
+  const check = pkg.platform === "linux" ? checkLinuxArchive : checkWindowsArchive;
+  const extension = pkg.platform === "linux" ? ".a" : ".lib";
+  for (const lib of fs.readdirSync(libsDir).filter((name) => name.endsWith(extension)).sort()) {
+    for (const problem of check(path.join(libsDir, lib), pkg.cpu)) {
+      problems.push(`libs/${lib}: ${problem}`);
+    }
+  }
+};
+
+/**
+ * Load index.js and check it describes this package and points at files that exist.
+ */
+const checkEntryPoint = (
+  pkgDir: string,
+  packageJson: PackageJson,
+  backend: Backend,
+  problems: string[]
+): void => {
+  if (packageJson.main !== "index.js") {
+    problems.push(`package.json: main is ${JSON.stringify(packageJson.main)}, expected "index.js"`);
+  }
+  for (const file of ["index.js", "index.d.ts"]) {
+    if (!fs.existsSync(path.join(pkgDir, file))) {
+      problems.push(`${file}: missing`);
+    }
+  }
+  if (problems.some((problem) => problem.startsWith("index.js"))) return;
+
+  let entry: EntryPointExports;
+  try {
+    entry = createRequire(path.join(pkgDir, "package.json"))("./index.js");
+  } catch (error) {
+    problems.push(`index.js: failed to load: ${(error as Error).message}`);
+    return;
+  }
+
+  const expected: EntryPointExports = {
+    name: packageJson.name,
+    version: packageJson.version,
+    skiaVersion: packageJson.skia?.version,
+    backend,
+    libsDir: path.join(pkgDir, "libs"),
+  };
+  for (const [key, value] of Object.entries(expected) as [keyof EntryPointExports, unknown][]) {
+    if (entry[key] !== value) {
+      problems.push(`index.js: ${key} is ${JSON.stringify(entry[key])}, expected ${JSON.stringify(value)}`);
+    }
+  }
+  const paths = [
+    ...Object.values(entry.abis ?? {}).flat(),
+    ...Object.values(entry.xcframeworks ?? {}),
+    ...(entry.libraries ?? []),
+  ];
+  for (const libPath of paths) {
+    if (!fs.existsSync(libPath)) {
+      problems.push(`index.js: lists ${path.relative(pkgDir, libPath)}, which does not exist`);
+    }
+  }
+};
+
+// Exists on disk, without following symlinks (a dangling link is still there)
+const isPresent = (target: string): boolean => {
+  try {
+    fs.lstatSync(target);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Compare what `npm pack` would publish with the files and symlinks on disk.
+ */
+const checkPackedFiles = async (
+  pkgDir: string,
+  packageFiles: string[],
+  problems: string[]
+): Promise<void> => {
+  const result = await captureCommand("npm", ["pack", "--dry-run", "--json"], { cwd: pkgDir });
+  if (result.code !== 0) {
+    problems.push(`npm pack failed: ${result.stderr.trim() || `exit code ${result.code}`}`);
+    return;
+  }
+  const [packed] = JSON.parse(result.stdout) as { files: { path: string }[] }[];
+  const packedFiles = new Set(packed.files.map((file) => file.path));
+  // "dir/**" entries cover everything under dir/, the others name single files
+  const packedDirs = packageFiles.filter((file) => file.endsWith("/**")).map((file) => file.slice(0, -2));
+  const singleFiles = packageFiles.filter((file) => !file.endsWith("/**"));
+
+  for (const file of packedFiles) {
+    const declared = singleFiles.includes(file) || packedDirs.some((dir) => file.startsWith(dir));
+    if (!declared && !ALWAYS_PACKED.test(file)) {
+      problems.push(`${file}: published but not matched by files ${JSON.stringify(packageFiles)}`);
+    }
+  }
+  const onDisk = [
+    ...singleFiles.filter((file) => isPresent(path.join(pkgDir, file))),
+    ...packedDirs.flatMap((dir) => listFiles(path.join(pkgDir, dir)).map((file) => `${dir}${file}`)),
+  ];
+  for (const file of onDisk) {
+    if (!packedFiles.has(file)) {
+      const isLink = fs.lstatSync(path.join(pkgDir, file)).isSymbolicLink();
+      problems.push(`${file}: ${isLink ? "symlink " : ""}not included by npm pack`);
+    }
+  }
+};
+
+const readPackageJson = (pkgDir: string): PackageJson | null => {
+  const packageJsonPath = path.join(pkgDir, "package.json");
+  return fs.existsSync(packageJsonPath) ? JSON.parse(fs.readFileSync(packageJsonPath, "utf8")) : null;
+};
+
+const validatePackage = async (pkgDir: string): Promise<string[]> => {
+  const problems: string[] = [];
+  const packageJson = readPackageJson(pkgDir);
+  if (!packageJson) {
+    return ["package.json: missing"];
+  }
+
+  const match = findPackageByName(packageJson.name);
+  if (!match) {
+    return [`${packageJson.name} is not a package of any backend (built-in or defined in the config)`];
+  }
+  const { pkg, backend } = match;
+
+  if (packageJson.skia?.backend !== backend) {
+    problems.push(`package.json: skia.backend is ${JSON.stringify(packageJson.skia?.backend)}, expected "${backend}"`);
+  }
+  if (Boolean(packageJson.skia?.graphite) !== isGraphite(backend)) {
+    problems.push(`package.json: skia.graphite does not match the ${backend} backend`);
+  }
+  const packageFiles = getPackageFiles(pkg, backend, {
+    prefab: fs.existsSync(path.join(pkgDir, PREFAB_DIR)),
+  });
+  if (JSON.stringify(packageJson.files) !== JSON.stringify(packageFiles)) {
+    problems.push(
+      `package.json: files is ${JSON.stringify(packageJson.files)}, expected ${JSON.stringify(packageFiles)}`
+    );
+  }
+
+  const libsDir = path.join(pkgDir, "libs");
+  if (listFiles(libsDir).length === 0) {
+    problems.push("libs/: empty");
+    return problems;
+  }
+
+  if (pkg.platform === "android") {
+    checkAndroid(libsDir, pkg, backend, problems);
+  } else if (pkg.platform === "apple") {
+    checkApple(libsDir, pkg, backend, problems);
+  } else if (isDesktopPlatform(pkg.platform)) {
+    checkDesktop(libsDir, pkg, backend, problems);
+  }
+
+  checkEntryPoint(pkgDir, packageJson, backend, problems);
+  await checkPackedFiles(pkgDir, packageFiles, problems);
+  return problems;
+};
+
+const main = async (): Promise<void> => {
+  const args = parseArgs();
+  const distDir = path.resolve((args["dist-dir"] as string) || path.join(ROOT_DIR, "dist"));
+
+  let pkgDirs: string[];
+  try {
+    loadBackends(path.resolve((args.config as string) || DEFAULT_CONFIG_PATH));
+    pkgDirs = readGeneratedManifest(distDir);
+    if (typeof args.backend === "string") {
+      const backend = resolveBackend(args.backend);
+      pkgDirs = pkgDirs.filter((dir) => {
+        const packageJson = readPackageJson(dir);
+        return packageJson !== null && findPackageByName(packageJson.name)?.backend === backend;
+      });
+    }
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  console.log(`Validating ${pkgDirs.length} package(s)...`);
+  console.log(`  Packages: ${distDir}`);
+  console.log("");
+
+  let failures = 0;
+  for (const pkgDir of pkgDirs) {
+    const problems = await validatePackage(pkgDir);
+    const name = path.basename(pkgDir);
+    if (problems.length === 0) {
+      console.log(`  [OK] ${name}`);
+      continue;
+    }
+    failures++;
+    console.log(`  [X] ${name}`);
+    for (const problem of problems) {
+      console.log(`      ${problem}`);
+    }
+  }
+
+  console.log("");
+  if (failures > 0) {
+    console.log(`${failures} package(s) failed validation.`);
+    process.exit(1);
+  }
+  console.log("All packages are valid!");
+};
+
+main();
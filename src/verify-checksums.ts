@@ -3,7 +3,14 @@
  *
  * Usage:
  *   npx tsx src/verify-checksums.ts --config=skia-config.json
- *   npx tsx src/verify-checksums.ts --config=skia-config.json --graphite
+ *   npx tsx src/verify-checksums.ts --config=skia-config.json --backend=graphite
+ *
+ * Options:
+ *   --config        Config file path (required)
+ *   --backend       Backend to verify: ganesh, graphite, or one defined in the config,
+ *                   by name or config key (default: ganesh)
+ *   --graphite      Same as --backend=graphite
+ *   --libs-dir      Directory download-binaries installed to (default: ./libs)
  *
  * The config file should have the same format as package.json in react-native-skia:
  * {
@@ -19,126 +26,53 @@
  *     "checksums": { ... }
  *   }
  * }
+ * The config is validated first (see config.ts).
  */
 
-import fs from "fs";
 import path from "path";
-import crypto from "crypto";
 import { fileURLToPath } from "url";
+import {
+  calculateDirectoryChecksum,
+  compareChecksum,
+  printChecksumReport,
+  ChecksumResult,
+} from "./checksums.js";
+import { ConfigFile, getBackendArg, getBackendConfig, loadConfig } from "./config.js";
+import {
+  Backend,
+  getBackendLabel,
+  getConfigKey,
+  getPackageArtifacts,
+  getPackages,
+  isChecksummed,
+} from "./registry.js";
+import { parseArgs } from "./utils.js";
+import { validateXcframeworks } from "./xcframework.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-interface Args {
-  [key: string]: string | boolean;
-}
-
-const parseArgs = (): Args => {
-  const args: Args = {};
-  for (const arg of process.argv.slice(2)) {
-    if (arg.startsWith("--")) {
-      const [key, value] = arg.slice(2).split("=");
-      args[key] = value ?? true;
-    }
-  }
-  return args;
-};
-
 /**
- * Calculate SHA256 checksum of a directory by hashing all files.
- */
-const calculateDirectoryChecksum = (directory: string): string | null => {
-  if (!fs.existsSync(directory)) {
-    return null;
-  }
-
-  const hash = crypto.createHash("sha256");
-  const files: string[] = [];
-
-  const collectFiles = (dir: string): void => {
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
-    for (const entry of entries) {
-      const fullPath = path.join(dir, entry.name);
-      if (entry.isDirectory()) {
-        collectFiles(fullPath);
-      } else if (entry.isFile()) {
-        files.push(fullPath);
-      }
-    }
-  };
-
-  collectFiles(directory);
-  files.sort();
-
-  for (const file of files) {
-    const relativePath = path.relative(directory, file);
-    hash.update(relativePath);
-    hash.update(fs.readFileSync(file));
-  }
-
-  return hash.digest("hex");
-};
-
-interface ChecksumResult {
-  platform: string;
-  expected: string | undefined;
-  actual: string | null;
-  match: boolean;
-  exists: boolean;
-}
-
-interface SkiaConfig {
-  version: string;
-  checksums: Record<string, string>;
-}
-
-interface ConfigFile {
-  skia?: SkiaConfig;
-  "skia-graphite"?: SkiaConfig;
-}
-
-/**
- * Verify checksums for all platforms in a libs directory.
+ * Verify checksums for the registry artifacts in a libs directory: every artifact
+ * of a checksummed package, and headers when the config has their checksum.
+ * Expects the layout written by download-binaries: libs/<package>/<destSubdir>.
  */
 const verifyChecksums = (
   libsDir: string,
   expectedChecksums: Record<string, string>,
-  graphite: boolean
+  backend: Backend
 ): ChecksumResult[] => {
   const results: ChecksumResult[] = [];
 
-  // Android architectures
-  const androidArchs = ["armeabi-v7a", "arm64-v8a", "x86", "x86_64"];
-  for (const arch of androidArchs) {
-    const archDir = path.join(libsDir, "android", arch);
-    const checksumKey = `android-${arch}`;
-    const expected = expectedChecksums[checksumKey];
-    const actual = calculateDirectoryChecksum(archDir);
-
-    results.push({
-      platform: checksumKey,
-      expected,
-      actual,
-      match: expected === actual,
-      exists: actual !== null,
-    });
-  }
-
-  // Apple platforms
-  const applePlatforms = graphite ? ["ios", "macos"] : ["ios", "tvos", "macos"];
-
-  for (const platform of applePlatforms) {
-    const platformDir = path.join(libsDir, "apple", platform);
-    const checksumKey = `apple-${platform}-xcframeworks`;
-    const expected = expectedChecksums[checksumKey];
-    const actual = calculateDirectoryChecksum(platformDir);
-
-    results.push({
-      platform: checksumKey,
-      expected,
-      actual,
-      match: expected === actual,
-      exists: actual !== null,
-    });
+  for (const pkg of getPackages(backend)) {
+    for (const artifact of getPackageArtifacts(pkg)) {
+      const artifactDir = path.join(libsDir, pkg.name, artifact.destSubdir);
+      const expected = expectedChecksums[artifact.checksumKey];
+      if (expected === undefined && !isChecksummed(pkg)) continue;
+      const actual = calculateDirectoryChecksum(artifactDir);
+      // An optional package the release doesn't provide has neither files nor a checksum
+      if (pkg.optional && expected === undefined && actual === null) continue;
+      results.push(compareChecksum(artifact.checksumKey, expected, actual));
+    }
   }
 
   return results;
@@ -154,55 +88,57 @@ const main = (): void => {
   }
 
   const configPath = path.resolve(args.config as string);
-  if (!fs.existsSync(configPath)) {
-    console.error(`Error: Config file not found: ${configPath}`);
+  let config: ConfigFile;
+  let backend: Backend;
+  try {
+    config = loadConfig(configPath);
+    backend = getBackendArg(args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
     process.exit(1);
   }
 
-  const config: ConfigFile = JSON.parse(fs.readFileSync(configPath, "utf8"));
-  const graphite = args.graphite === true;
-  const skiaConfig = graphite ? config["skia-graphite"] : config.skia;
+  const skiaConfig = getBackendConfig(config, backend);
 
   if (!skiaConfig) {
     console.error(
-      `Error: ${graphite ? "skia-graphite" : "skia"} config not found in ${configPath}`
+      `Error: ${getConfigKey(backend)} config not found in ${configPath}`
     );
     process.exit(1);
   }
 
   const libsDir = (args["libs-dir"] as string) || path.join(process.cwd(), "libs");
 
-  console.log(`Verifying ${graphite ? "Graphite" : "Ganesh"} checksums...`);
+  console.log(`Verifying ${getBackendLabel(backend)} checksums...`);
   console.log(`  Config: ${configPath}`);
   console.log(`  Version: ${skiaConfig.version}`);
   console.log(`  Libs: ${libsDir}`);
   console.log("");
 
-  const results = verifyChecksums(libsDir, skiaConfig.checksums || {}, graphite);
-
-  let allMatch = true;
-  for (const result of results) {
-    if (!result.exists) {
-      console.log(`  [ ] ${result.platform}: NOT FOUND`);
-      allMatch = false;
-    } else if (result.match) {
-      console.log(`  [OK] ${result.platform}`);
-    } else {
-      console.log(`  [X] ${result.platform}: MISMATCH`);
-      console.log(`      Expected: ${result.expected}`);
-      console.log(`      Actual:   ${result.actual}`);
-      allMatch = false;
-    }
+  const results = verifyChecksums(libsDir, skiaConfig.checksums || {}, backend);
+
+  const allMatch = printChecksumReport(results);
+
+  // Checksums ignore symlinks, so check the framework layouts separately
+  const layoutProblems = getPackages(backend)
+    .filter((pkg) => pkg.platform === "apple")
+    .flatMap((pkg) => validateXcframeworks(path.join(libsDir, pkg.name)));
+  for (const problem of layoutProblems) {
+    console.log(`  [X] ${problem}`);
   }
 
   console.log("");
-  if (allMatch) {
+  if (allMatch && layoutProblems.length === 0) {
     console.log("All checksums match!");
     process.exit(0);
-  } else {
+  }
+  if (!allMatch) {
     console.log("Some checksums do not match or are missing.");
-    process.exit(1);
   }
+  if (layoutProblems.length > 0) {
+    console.log("Some xcframeworks have a broken or flattened layout.");
+  }
+  process.exit(1);
 };
 
 main();
@@ -0,0 +1,30 @@
+/**
+ * Skia milestone → npm version mapping.
+ */
+
+/**
+ * Derives npm version from Skia version.
+ * m144 → 144.0.0
+ * m144a → 144.1.0
+ * m144b → 144.2.0
+ * m144c → 144.3.0
+ *
+ * With patch version:
+ * m147a + patch=1 → 147.1.1
+ */
+export const deriveNpmVersion = (skiaVersion: string, patch = 0): string => {
+  const match = skiaVersion.match(/^m(\d+)([a-z])?$/);
+  if (!match) {
+    throw new Error(
+      `Invalid skia version format: ${skiaVersion}. Expected format: m144 or m144a`
+    );
+  }
+
+  const major = match[1];
+  const suffix = match[2];
+
+  // Convert suffix letter to minor version: a=1, b=2, c=3, etc.
+  const minor = suffix ? suffix.charCodeAt(0) - "a".charCodeAt(0) + 1 : 0;
+
+  return `${major}.${minor}.${patch}`;
+};
@@ -0,0 +1,249 @@
+/**
+ * Structural checks for .xcframework bundles in a libs directory.
+ *
+ * macOS-style (versioned) frameworks rely on symlinks:
+ *   Foo.framework/Versions/A/...
+ *   Foo.framework/Versions/Current -> A
+ *   Foo.framework/Headers -> Versions/Current/Headers
+ * A copy that follows symlinks duplicates these into real directories
+ * ("flattened"), and a copy that drops them leaves dangling links.
+ */
+
+import fs from "fs";
+import path from "path";
+import { PlistDict, parsePlist } from "./plist.js";
+import { XcframeworkSlice, getSliceLabel } from "./registry.js";
+
+const isSymlink = (p: string): boolean => {
+  try {
+    return fs.lstatSync(p).isSymbolicLink();
+  } catch {
+    return false;
+  }
+};
+
+const isInside = (root: string, target: string): boolean =>
+  target === root || target.startsWith(root + path.sep);
+
+/**
+ * Every symlink in the bundle must resolve to something inside the bundle.
+ */
+const checkSymlinks = (root: string, dir: string, problems: string[]): void => {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    const relative = path.relative(path.dirname(root), fullPath);
+    if (entry.isSymbolicLink()) {
+      const target = path.resolve(dir, fs.readlinkSync(fullPath));
+      if (!isInside(root, target)) {
+        problems.push(`${relative}: symlink points outside the xcframework`);
+      } else if (!fs.existsSync(fullPath)) {
+        problems.push(`${relative}: broken symlink -> ${fs.readlinkSync(fullPath)}`);
+      }
+    } else if (entry.isDirectory()) {
+      checkSymlinks(root, fullPath, problems);
+    }
+  }
+};
+
+/**
+ * Check the Versions layout of a single .framework directory.
+ */
+const checkFramework = (
+  frameworkDir: string,
+  sliceId: string,
+  relative: string,
+  problems: string[]
+): void => {
+  const versionsDir = path.join(frameworkDir, "Versions");
+
+  if (!fs.existsSync(versionsDir)) {
+    // iOS/tvOS frameworks are shallow; macOS frameworks must be versioned
+    if (sliceId.startsWith("macos") || sliceId.includes("maccatalyst")) {
+      problems.push(`${relative}: missing Versions directory (flattened framework?)`);
+    }
+    return;
+  }
+
+  if (isSymlink(versionsDir)) {
+    problems.push(`${relative}/Versions: expected a directory, found a symlink`);
+    return;
+  }
+
+  const current = path.join(versionsDir, "Current");
+  if (!fs.existsSync(current) && !isSymlink(current)) {
+    problems.push(`${relative}/Versions/Current: missing`);
+  } else if (!isSymlink(current)) {
+    problems.push(`${relative}/Versions/Current: expected a symlink, found a copy (flattened)`);
+  }
+
+  // Everything at the top level besides Versions should link into Versions/Current
+  for (const name of fs.readdirSync(frameworkDir)) {
+    if (name === "Versions") continue;
+    if (!isSymlink(path.join(frameworkDir, name))) {
+      problems.push(`${relative}/${name}: expected a symlink into Versions/Current (flattened)`);
+    }
+  }
+};
+
+/**
+ * Validate one .xcframework directory. Returns a list of problems.
+ */
+export const validateXcframework = (xcframeworkDir: string): string[] => {
+  const problems: string[] = [];
+  const name = path.basename(xcframeworkDir);
+
+  checkSymlinks(xcframeworkDir, xcframeworkDir, problems);
+
+  for (const slice of fs.readdirSync(xcframeworkDir, { withFileTypes: true })) {
+    if (!slice.isDirectory()) continue;
+    const sliceDir = path.join(xcframeworkDir, slice.name);
+    for (const entry of fs.readdirSync(sliceDir, { withFileTypes: true })) {
+      if (entry.isDirectory() && entry.name.endsWith(".framework")) {
+        checkFramework(
+          path.join(sliceDir, entry.name),
+          slice.name,
+          `${name}/${slice.name}/${entry.name}`,
+          problems
+        );
+      }
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Find every .xcframework (recursively) in a libs directory, sorted.
+ */
+const findXcframeworks = (libsDir: string): string[] => {
+  const found: string[] = [];
+  if (!fs.existsSync(libsDir)) {
+    return found;
+  }
+
+  const walk = (dir: string): void => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.name.endsWith(".xcframework")) {
+        found.push(fullPath);
+      } else {
+        walk(fullPath);
+      }
+    }
+  };
+
+  walk(libsDir);
+  return found.sort();
+};
+
+/**
+ * Validate every .xcframework found (recursively) in a libs directory.
+ */
+export const validateXcframeworks = (libsDir: string): string[] =>
+  findXcframeworks(libsDir).flatMap((xcframeworkDir) => validateXcframework(xcframeworkDir));
+
+/**
+ * One entry of AvailableLibraries in an xcframework's Info.plist.
+ */
+export interface AvailableLibrary {
+  identifier: string;
+  path: string;
+  platform: string;
+  variant?: string;
+  architectures: string[];
+}
+
+export interface XcframeworkSlices {
+  // Path relative to the libs directory
+  xcframework: string;
+  libraries: AvailableLibrary[];
+}
+
+const readString = (dict: PlistDict, key: string): string | undefined => {
+  const value = dict[key];
+  return typeof value === "string" ? value : undefined;
+};
+
+/**
+ * Read AvailableLibraries from <xcframework>/Info.plist. Throws if the plist
+ * is missing or malformed.
+ */
+export const readAvailableLibraries = (xcframeworkDir: string): AvailableLibrary[] => {
+  const plistPath = path.join(xcframeworkDir, "Info.plist");
+  const plist = parsePlist(fs.readFileSync(plistPath, "utf8"));
+  const libraries =
+    plist && typeof plist === "object" && !Array.isArray(plist)
+      ? (plist as PlistDict).AvailableLibraries
+      : undefined;
+  if (!Array.isArray(libraries)) {
+    throw new Error("Info.plist has no AvailableLibraries array");
+  }
+
+  return libraries.map((entry, index) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry) || Buffer.isBuffer(entry)) {
+      throw new Error(`AvailableLibraries[${index}] is not a dict`);
+    }
+    const dict = entry as PlistDict;
+    const identifier = readString(dict, "LibraryIdentifier");
+    const libraryPath = readString(dict, "LibraryPath");
+    const platform = readString(dict, "SupportedPlatform");
+    const architectures = dict.SupportedArchitectures;
+    if (!identifier || !libraryPath || !platform || !Array.isArray(architectures)) {
+      throw new Error(
+        `AvailableLibraries[${index}] is missing LibraryIdentifier, LibraryPath, ` +
+          "SupportedPlatform or SupportedArchitectures"
+      );
+    }
+    return {
+      identifier,
+      path: libraryPath,
+      platform,
+      variant: readString(dict, "SupportedPlatformVariant"),
+      architectures: architectures.filter((arch): arch is string => typeof arch === "string"),
+    };
+  });
+};
+
+const providesSlice = (library: AvailableLibrary, slice: XcframeworkSlice): boolean =>
+  library.platform === slice.platform &&
+  library.variant === slice.variant &&
+  slice.architectures.every((arch) => library.architectures.includes(arch));
+
+/**
+ * List the slices of every .xcframework in a libs directory and check that
+ * each provides the expected slices. Returns the slices found and a list of
+ * problems; an unreadable Info.plist is reported as a problem.
+ */
+export const checkXcframeworkSlices = (
+  libsDir: string,
+  expected: XcframeworkSlice[]
+): { slices: XcframeworkSlices[]; problems: string[] } => {
+  const slices: XcframeworkSlices[] = [];
+  const problems: string[] = [];
+
+  for (const xcframeworkDir of findXcframeworks(libsDir)) {
+    const relative = path.relative(libsDir, xcframeworkDir).split(path.sep).join("/");
+    let libraries: AvailableLibrary[];
+    try {
+      libraries = readAvailableLibraries(xcframeworkDir);
+    } catch (error) {
+      problems.push(`${relative}/Info.plist: ${(error as Error).message}`);
+      continue;
+    }
+    slices.push({ xcframework: relative, libraries });
+
+    for (const slice of expected) {
+      if (!libraries.some((library) => providesSlice(library, slice))) {
+        problems.push(`${relative}: missing slice ${getSliceLabel(slice)}`);
+      }
+    }
+    for (const library of libraries) {
+      if (!fs.existsSync(path.join(xcframeworkDir, library.identifier, library.path))) {
+        problems.push(`${relative}/${library.identifier}/${library.path}: listed in Info.plist but missing`);
+      }
+    }
+  }
+
+  return { slices, problems };
+};
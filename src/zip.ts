@@ -0,0 +1,182 @@
+/**
+ * Minimal zip writer, for the xcframework archives SwiftPM downloads.
+ *
+ * Entries are written in sorted order with a fixed timestamp, so zipping the
+ * same directory twice gives byte-identical archives (and the same SwiftPM
+ * checksum). Symlinks are stored as Unix symlinks, which versioned macOS
+ * frameworks rely on. Zip64 is not supported: entries and the archive must
+ * stay under 4 GB.
+ */
+
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+// Version 2.0, made by Unix (so external attributes carry the file mode)
+const VERSION_MADE_BY = (3 << 8) | 20;
+const VERSION_NEEDED = 20;
+// UTF-8 file names
+const FLAG_UTF8 = 0x0800;
+// 1980-01-01 00:00, the earliest DOS date
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const DOS_TIME = 0;
+const MAX_UINT32 = 0xffffffff;
+
+const S_IFDIR = 0o040000;
+const S_IFREG = 0o100000;
+const S_IFLNK = 0o120000;
+
+interface ZipEntry {
+  name: string;
+  kind: "directory" | "file" | "symlink";
+  mode: number;
+  // File path to read for files, link target for symlinks
+  source: string;
+}
+
+interface CentralRecord {
+  name: Buffer;
+  mode: number;
+  directory: boolean;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Collect the entries under dir, named relative to its parent so the archive
+ * holds the directory itself (e.g. libskia.xcframework/...).
+ */
+const collectEntries = (dir: string, base: string, entries: ZipEntry[]): void => {
+  const name = path.relative(base, dir).split(path.sep).join("/");
+  entries.push({ name: `${name}/`, kind: "directory", mode: S_IFDIR | 0o755, source: "" });
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) =>
+    a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+  )) {
+    const fullPath = path.join(dir, entry.name);
+    const entryName = `${name}/${entry.name}`;
+    if (entry.isSymbolicLink()) {
+      entries.push({
+        name: entryName,
+        kind: "symlink",
+        mode: S_IFLNK | 0o755,
+        source: fs.readlinkSync(fullPath),
+      });
+    } else if (entry.isDirectory()) {
+      collectEntries(fullPath, base, entries);
+    } else if (entry.isFile()) {
+      const mode = fs.statSync(fullPath).mode & 0o777;
+      entries.push({ name: entryName, kind: "file", mode: S_IFREG | mode, source: fullPath });
+    }
+  }
+};
+
+const localHeader = (record: CentralRecord): Buffer => {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION_NEEDED, 4);
+  header.writeUInt16LE(FLAG_UTF8, 6);
+  header.writeUInt16LE(record.method, 8);
+  header.writeUInt16LE(DOS_TIME, 10);
+  header.writeUInt16LE(DOS_DATE, 12);
+  header.writeUInt32LE(record.crc, 14);
+  header.writeUInt32LE(record.compressedSize, 18);
+  header.writeUInt32LE(record.size, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, record.name]);
+};
+
+const centralHeader = (record: CentralRecord): Buffer => {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(VERSION_MADE_BY, 4);
+  header.writeUInt16LE(VERSION_NEEDED, 6);
+  header.writeUInt16LE(FLAG_UTF8, 8);
+  header.writeUInt16LE(record.method, 10);
+  header.writeUInt16LE(DOS_TIME, 12);
+  header.writeUInt16LE(DOS_DATE, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(record.compressedSize, 20);
+  header.writeUInt32LE(record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  // Extra field, comment, disk number and internal attributes stay 0
+  header.writeUInt32LE(((record.mode << 16) | (record.directory ? 0x10 : 0)) >>> 0, 38);
+  header.writeUInt32LE(record.offset, 42);
+  return Buffer.concat([header, record.name]);
+};
+
+/**
+ * Zip a directory into zipPath, with the directory as the archive's single
+ * top-level entry.
+ */
+export const zipDirectory = (sourceDir: string, zipPath: string): void => {
+  const entries: ZipEntry[] = [];
+  collectEntries(sourceDir, path.dirname(sourceDir), entries);
+
+  fs.mkdirSync(path.dirname(zipPath), { recursive: true });
+  const fd = fs.openSync(zipPath, "w");
+  try {
+    const records: CentralRecord[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      // Files are read one at a time; directories and link targets are stored
+      const data =
+        entry.kind === "file"
+          ? fs.readFileSync(entry.source)
+          : Buffer.from(entry.kind === "symlink" ? entry.source : "");
+      const compressed = entry.kind === "file" ? zlib.deflateRawSync(data) : data;
+      const useDeflate = compressed.length < data.length;
+      const record: CentralRecord = {
+        name: Buffer.from(entry.name, "utf8"),
+        mode: entry.mode,
+        directory: entry.kind === "directory",
+        method: useDeflate ? METHOD_DEFLATED : METHOD_STORED,
+        crc: zlib.crc32(data),
+        compressedSize: useDeflate ? compressed.length : data.length,
+        size: data.length,
+        offset,
+      };
+      if (record.size > MAX_UINT32 || offset > MAX_UINT32) {
+        throw new Error(`${entry.name} is too large for a zip without Zip64`);
+      }
+
+      const header = localHeader(record);
+      fs.writeSync(fd, header);
+      fs.writeSync(fd, useDeflate ? compressed : data);
+      offset += header.length + record.compressedSize;
+      records.push(record);
+    }
+
+    const centralOffset = offset;
+    let centralSize = 0;
+    for (const record of records) {
+      const header = centralHeader(record);
+      fs.writeSync(fd, header);
+      centralSize += header.length;
+    }
+    if (records.length > 0xffff || centralOffset + centralSize > MAX_UINT32) {
+      throw new Error(`${path.basename(zipPath)} is too large for a zip without Zip64`);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(records.length, 8);
+    end.writeUInt16LE(records.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(centralOffset, 16);
+    fs.writeSync(fd, end);
+  } finally {
+    fs.closeSync(fd);
+  }
+};